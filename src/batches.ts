@@ -0,0 +1,195 @@
+// Batch jobs: many calls to one of the generation tools, run in the background with bounded
+// concurrency and persisted after every item so an interrupted batch resumes where it stopped
+import { randomUUID } from "crypto";
+import { readdir } from "fs/promises";
+import { join } from "path";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "./store.js";
+
+export const BATCHES_DIR = join(DATA_DIR, "batches");
+
+function envLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Caps that keep one client (or one HTTP session) from flooding the server with work
+export const BATCH_LIMITS = {
+  // Items in one batch, glob matches included
+  maxItems: envLimit("GEMCP_BATCH_MAX_ITEMS", 500),
+  // Batches one MCP session may have running at the same time
+  maxActive: envLimit("GEMCP_BATCH_MAX_ACTIVE", 3),
+};
+
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface BatchItem {
+  index: number;
+  tool: string;
+  args: Record<string, unknown>;
+  // Where the item came from: the matched file or the JSONL line
+  source?: string;
+  status: BatchItemStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  // Text the tool returned, and the files it saved
+  output?: string;
+  files?: string[];
+  error?: string;
+}
+
+// local: items run in this server process. batch_api: one Gemini Batch API job, polled on status checks.
+export type BatchMode = 'local' | 'batch_api';
+
+export interface Batch {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  mode: BatchMode;
+  status: 'running' | 'completed';
+  // MCP session that submitted the batch; its items count against that session's budget
+  session: string;
+  concurrency: number;
+  ratePerMinute?: number;
+  // Process currently running the items, so a second server sharing the data dir leaves them alone
+  pid?: number;
+  remote?: { name: string; model: string; state: string };
+  items: BatchItem[];
+}
+
+function batchPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid batch id "${id}"`);
+  return join(BATCHES_DIR, `${id}.json`);
+}
+
+export async function createBatch(entry: Omit<Batch, "id" | "createdAt" | "updatedAt" | "status">): Promise<Batch> {
+  const now = new Date().toISOString();
+  const batch: Batch = { ...entry, id: randomUUID(), createdAt: now, updatedAt: now, status: 'running' };
+  await writeJsonFile(batchPath(batch.id), batch);
+  return batch;
+}
+
+export async function loadBatch(id: string): Promise<Batch> {
+  const batch = await readJsonFile<Batch>(batchPath(id));
+  if (!batch) throw new Error(`Unknown batch "${id}". Submit one with gemini_batch_submit.`);
+  return batch;
+}
+
+export async function saveBatch(batch: Batch): Promise<void> {
+  batch.updatedAt = new Date().toISOString();
+  await writeJsonFile(batchPath(batch.id), batch);
+}
+
+// Throw when the session already has as many running batches as it may
+export async function assertCanStartBatch(session: string): Promise<void> {
+  const active = (await listBatches()).filter(b => b.session === session && b.status === 'running').length;
+  if (active >= BATCH_LIMITS.maxActive) {
+    throw new Error(`This session already has ${active} running batch(es), the most allowed (GEMCP_BATCH_MAX_ACTIVE). Wait for one to finish; check with gemini_batch_status.`);
+  }
+}
+
+export async function listBatches(): Promise<Batch[]> {
+  let files: string[];
+  try {
+    files = await readdir(BATCHES_DIR);
+  } catch {
+    return [];
+  }
+  const batches = await Promise.all(
+    files.filter(f => f.endsWith(".json")).map(f => readJsonFile<Batch>(join(BATCHES_DIR, f)))
+  );
+  return batches
+    .filter((b): b is Batch => Boolean(b))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function batchCounts(batch: Batch): Record<BatchItemStatus, number> {
+  const counts: Record<BatchItemStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const item of batch.items) counts[item.status]++;
+  return counts;
+}
+
+export interface ItemResult {
+  output?: string;
+  files?: string[];
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => { signal.removeEventListener("abort", onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(signal.reason); };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Batches running in this process, so a batch is never run twice concurrently
+const running = new Set<string>();
+
+// Run a local batch's pending items in the background. Items found "running" were interrupted
+// by a restart and run again. Each item's outcome is saved as soon as it finishes.
+export function runBatch(batch: Batch, runItem: (item: BatchItem, batch: Batch, signal: AbortSignal) => Promise<ItemResult>): boolean {
+  if (batch.mode !== 'local' || batch.status !== 'running' || running.has(batch.id)) return false;
+  if (batch.pid && batch.pid !== process.pid && isAlive(batch.pid)) return false;
+
+  const controller = new AbortController();
+  running.add(batch.id);
+  batch.pid = process.pid;
+  for (const item of batch.items) if (item.status === 'running') item.status = 'pending';
+
+  // Saves are chained so concurrent workers never write the file out of order
+  let saving = saveBatch(batch);
+  const save = () => { saving = saving.then(() => saveBatch(batch)).catch((error) => console.error(`Failed to save batch ${batch.id}:`, error)); return saving; };
+
+  const interval = batch.ratePerMinute ? 60_000 / batch.ratePerMinute : 0;
+  let nextStart = Date.now();
+  const queue = batch.items.filter(item => item.status === 'pending');
+
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      // Rate limit: starts are spaced at least `interval` apart across all workers
+      const wait = nextStart - Date.now();
+      nextStart = Math.max(nextStart, Date.now()) + interval;
+      if (wait > 0) await sleep(wait, controller.signal);
+
+      item.status = 'running';
+      item.startedAt = new Date().toISOString();
+      await save();
+      try {
+        const result = await runItem(item, batch, controller.signal);
+        Object.assign(item, { status: 'succeeded', ...result });
+      } catch (error) {
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+      }
+      item.finishedAt = new Date().toISOString();
+      await save();
+    }
+  };
+
+  Promise.all(Array.from({ length: Math.max(1, batch.concurrency) }, worker))
+    .then(() => {
+      batch.status = 'completed';
+      batch.pid = undefined;
+      return save();
+    })
+    .catch((error) => console.error(`Batch ${batch.id} stopped:`, error))
+    .finally(() => running.delete(batch.id));
+  return true;
+}
+
+// Pick up local batches left unfinished by an earlier server process
+export async function resumeBatches(runItem: Parameters<typeof runBatch>[1]): Promise<number> {
+  let resumed = 0;
+  for (const batch of await listBatches()) {
+    if (batch.mode === 'local' && batch.status === 'running' && runBatch(batch, runItem)) resumed++;
+  }
+  return resumed;
+}
@@ -0,0 +1,202 @@
+// Opt-in on-disk cache of Gemini responses, so repeating an identical call costs nothing.
+// Entries are keyed by a hash of the model, config and every input, inline image bytes included.
+import { createHash } from "crypto";
+import { readdir, readFile, rm, stat, utimes } from "fs/promises";
+import { join, resolve } from "path";
+import { GenerateContentResponse } from "@google/genai";
+import type { Content, GenerateContentConfig } from "@google/genai";
+import { DATA_DIR, writeJsonFile } from "./store.js";
+
+// off: no caching. deterministic: only requests with a seed or temperature 0. all: every request.
+export type CacheMode = 'off' | 'deterministic' | 'all';
+
+// Per-call override: bypass skips the cache entirely, refresh makes the call and replaces the entry
+export type CacheOverride = 'bypass' | 'refresh';
+
+const CACHE_MODES: CacheMode[] = ['off', 'deterministic', 'all'];
+
+// Bump when the entry format or key inputs change, so old entries stop matching
+const CACHE_VERSION = 1;
+
+function envMode(): CacheMode {
+  const value = process.env.GEMCP_CACHE?.trim().toLowerCase();
+  if (!value || /^(0|false|no)$/.test(value)) return 'off';
+  if (/^(1|true|yes|on)$/.test(value)) return 'deterministic';
+  if (!CACHE_MODES.includes(value as CacheMode)) {
+    throw new Error(`GEMCP_CACHE must be one of ${CACHE_MODES.join(', ')}, got "${value}"`);
+  }
+  return value as CacheMode;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const CACHE_SETTINGS = {
+  mode: envMode(),
+  dir: resolve(process.env.GEMCP_CACHE_DIR || join(DATA_DIR, "cache")),
+  ttlMs: envNumber("GEMCP_CACHE_TTL_HOURS", 24 * 7) * 3_600_000,
+  maxBytes: envNumber("GEMCP_CACHE_MAX_MB", 500) * 1024 * 1024,
+};
+
+export interface CacheRequest {
+  model: string;
+  contents: Content[];
+  config: GenerateContentConfig;
+}
+
+interface CacheEntry {
+  key: string;
+  // Which call made the entry (text, svg, segment, ...) and with which model
+  kind: string;
+  model: string;
+  createdAt: string;
+  response: GenerateContentResponse;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  kind: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+  bytes: number;
+  expired: boolean;
+}
+
+export function cacheKey(kind: string, request: CacheRequest): string {
+  const { abortSignal: _, ...config } = request.config;
+  return createHash("sha256")
+    .update(JSON.stringify({ version: CACHE_VERSION, kind, model: request.model, contents: request.contents, config }))
+    .digest("hex");
+}
+
+function entryPath(key: string): string {
+  return join(CACHE_SETTINGS.dir, `${key}.json`);
+}
+
+function isCacheable(config: GenerateContentConfig): boolean {
+  if (CACHE_SETTINGS.mode === 'all') return true;
+  return CACHE_SETTINGS.mode === 'deterministic' && (config.seed !== undefined || config.temperature === 0);
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  const path = entryPath(key);
+  try {
+    const entry = JSON.parse(await readFile(path, "utf-8")) as CacheEntry;
+    if (Date.now() - Date.parse(entry.createdAt) > CACHE_SETTINGS.ttlMs) {
+      await rm(path, { force: true });
+      return undefined;
+    }
+    // The modification time tracks last use, so eviction drops the least recently used entries
+    const now = new Date();
+    await utimes(path, now, now);
+    return entry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    // A corrupt entry is treated as a miss and overwritten by the next call
+    console.error(`Ignoring unreadable cache entry ${path}:`, error);
+    return undefined;
+  }
+}
+
+// Run a generateContent call through the cache. Hits come back without usage metadata, since
+// no tokens were spent on them.
+export async function cachedGenerate(
+  kind: string,
+  request: CacheRequest,
+  override: CacheOverride | undefined,
+  call: () => Promise<GenerateContentResponse>
+): Promise<{ response: GenerateContentResponse; cached: boolean }> {
+  if (override === 'bypass' || !isCacheable(request.config)) return { response: await call(), cached: false };
+
+  const key = cacheKey(kind, request);
+  if (override !== 'refresh') {
+    const entry = await readEntry(key);
+    if (entry) {
+      const response = Object.assign(new GenerateContentResponse(), entry.response);
+      response.usageMetadata = undefined;
+      return { response, cached: true };
+    }
+  }
+
+  const response = await call();
+  const entry: CacheEntry = { key, kind, model: request.model, createdAt: new Date().toISOString(), response };
+  await writeJsonFile(entryPath(key), entry)
+    .then(() => enforceLimits())
+    .catch((error) => console.error("Failed to write cache entry:", error));
+  return { response, cached: false };
+}
+
+async function entryFiles(): Promise<Array<{ key: string; path: string; bytes: number; mtimeMs: number }>> {
+  let files: string[];
+  try {
+    files = await readdir(CACHE_SETTINGS.dir);
+  } catch {
+    return [];
+  }
+  const entries = await Promise.all(files.filter(f => f.endsWith(".json")).map(async (f) => {
+    const path = join(CACHE_SETTINGS.dir, f);
+    const info = await stat(path).catch(() => undefined);
+    return info && { key: f.slice(0, -".json".length), path, bytes: info.size, mtimeMs: info.mtimeMs };
+  }));
+  return entries.filter((e): e is NonNullable<typeof e> => Boolean(e));
+}
+
+// Drop least recently used entries until the cache fits in GEMCP_CACHE_MAX_MB
+async function enforceLimits(): Promise<void> {
+  const files = (await entryFiles()).sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let total = files.reduce((sum, f) => sum + f.bytes, 0);
+  for (const file of files) {
+    if (total <= CACHE_SETTINGS.maxBytes) break;
+    await rm(file.path, { force: true });
+    total -= file.bytes;
+  }
+}
+
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const infos = await Promise.all((await entryFiles()).map(async (file): Promise<CacheEntryInfo | undefined> => {
+    try {
+      const entry = JSON.parse(await readFile(file.path, "utf-8")) as CacheEntry;
+      return {
+        key: file.key,
+        kind: entry.kind,
+        model: entry.model,
+        createdAt: entry.createdAt,
+        lastUsedAt: new Date(file.mtimeMs).toISOString(),
+        bytes: file.bytes,
+        expired: Date.now() - Date.parse(entry.createdAt) > CACHE_SETTINGS.ttlMs,
+      };
+    } catch {
+      return undefined;
+    }
+  }));
+  return infos
+    .filter((e): e is CacheEntryInfo => Boolean(e))
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
+
+// Remove entries matching every given filter; with no filters the whole cache is cleared,
+// unreadable entries included
+export async function clearCache(filter: { kind?: string; model?: string; expiredOnly?: boolean } = {}): Promise<{ removed: number; bytes: number }> {
+  let removed = 0;
+  let bytes = 0;
+  if (!filter.kind && !filter.model && !filter.expiredOnly) {
+    for (const file of await entryFiles()) {
+      await rm(file.path, { force: true });
+      removed++;
+      bytes += file.bytes;
+    }
+    return { removed, bytes };
+  }
+  for (const entry of await listCacheEntries()) {
+    if (filter.kind && entry.kind !== filter.kind) continue;
+    if (filter.model && entry.model !== filter.model) continue;
+    if (filter.expiredOnly && !entry.expired) continue;
+    await rm(entryPath(entry.key), { force: true });
+    removed++;
+    bytes += entry.bytes;
+  }
+  return { removed, bytes };
+}
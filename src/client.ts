@@ -0,0 +1,414 @@
+// Shared Gemini clients: backend selection (Gemini API keys or Vertex AI) per role, rotation across
+// API keys on quota errors, retries with backoff, timeouts and error classification
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { Candidate, GenerateContentResponse, SafetyRating } from "@google/genai";
+import type { ModelRole } from "./models.js";
+import type { Usage } from "./utils.js";
+
+export type GeminiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalid_argument'
+  | 'outage'
+  | 'timeout'
+  | 'cancelled'
+  | 'empty'
+  | 'invalid_response'
+  | 'unknown';
+
+const KIND_LABELS: Record<GeminiErrorKind, string> = {
+  auth: 'Authentication failed',
+  quota: 'Quota exceeded',
+  safety: 'Blocked by safety filters',
+  invalid_argument: 'Invalid request',
+  outage: 'Gemini API unavailable',
+  timeout: 'Timed out',
+  cancelled: 'Cancelled',
+  empty: 'Empty response',
+  invalid_response: 'Invalid response',
+  unknown: 'Gemini request failed',
+};
+
+export class GeminiError extends Error {
+  readonly kind: GeminiErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly blockReason?: string;
+  // Tokens spent by requests the failed call already made (e.g. rejected repair attempts), and on which model
+  usage?: Usage;
+  model?: string;
+
+  constructor(
+    kind: GeminiErrorKind,
+    detail: string,
+    options: { status?: number; retryable?: boolean; retryAfterMs?: number; blockReason?: string; hint?: string; usage?: Usage; model?: string } = {}
+  ) {
+    super(`${KIND_LABELS[kind]}: ${detail}${options.hint ? `\n${options.hint}` : ''}`);
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.blockReason = options.blockReason;
+    this.usage = options.usage;
+    this.model = options.model;
+  }
+}
+
+// Retry and timeout settings, overridable through env
+const MAX_RETRIES = envNumber('GEMINI_MAX_RETRIES', 3);
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+export type TimeoutKey = ModelRole | 'upload';
+
+const DEFAULT_TIMEOUTS_MS: Record<TimeoutKey, number> = {
+  text: 180000,
+  svg: 180000,
+  segment: 120000,
+  detect: 120000,
+  vision: 120000,
+  image: 300000,
+  imagen: 180000,
+  edit: 180000,
+  upscale: 180000,
+  upload: 600000,
+};
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// e.g. GEMINI_IMAGE_TIMEOUT_MS, falling back to GEMINI_TIMEOUT_MS, then the built-in default
+export function timeoutFor(key: TimeoutKey): number {
+  return envNumber(`GEMINI_${key.toUpperCase()}_TIMEOUT_MS`, envNumber('GEMINI_TIMEOUT_MS', DEFAULT_TIMEOUTS_MS[key]));
+}
+
+// gemini: Gemini Developer API (AI Studio keys). vertex: Vertex AI with Google Cloud credentials.
+export type Backend = 'gemini' | 'vertex';
+
+const BACKEND_NAMES: Backend[] = ['gemini', 'vertex'];
+
+// Roles that default to Vertex AI when both backends are configured: the Imagen capability
+// models behind edit and upscale are only served there in practice
+const VERTEX_PREFERRED_ROLES: ModelRole[] = ['edit', 'upscale'];
+
+const ROLES: ModelRole[] = ['text', 'svg', 'segment', 'detect', 'vision', 'image', 'imagen', 'edit', 'upscale'];
+
+// Keys from GEMINI_API_KEY and GEMINI_API_KEYS, either of which may hold a comma-separated list.
+// Whitespace and newlines are stripped (a common issue with env vars).
+function envApiKeys(): string[] {
+  const keys = [process.env.GEMINI_API_KEY, process.env.GEMINI_API_KEYS]
+    .flatMap(value => (value || '').split(','))
+    .map(key => key.trim())
+    .filter(Boolean);
+  return [...new Set(keys)];
+}
+
+export const BACKEND_CONFIG = {
+  apiKeys: envApiKeys(),
+  // Vertex AI is available once a project is set; credentials come from the service-account file
+  // if one is given, otherwise from Application Default Credentials (gcloud auth application-default login)
+  vertex: process.env.GOOGLE_CLOUD_PROJECT?.trim()
+    ? {
+      project: process.env.GOOGLE_CLOUD_PROJECT.trim(),
+      location: process.env.GOOGLE_CLOUD_LOCATION?.trim() || 'us-central1',
+      keyFile: process.env.GOOGLE_APPLICATION_CREDENTIALS?.trim() ? resolve(process.env.GOOGLE_APPLICATION_CREDENTIALS.trim()) : undefined,
+    }
+    : undefined,
+};
+
+function isBackendConfigured(backend: Backend): boolean {
+  return backend === 'gemini' ? BACKEND_CONFIG.apiKeys.length > 0 : Boolean(BACKEND_CONFIG.vertex);
+}
+
+// e.g. GEMCP_EDIT_BACKEND, falling back to GEMCP_BACKEND, then whichever backend is configured
+function requestedBackend(role: ModelRole): string | undefined {
+  return process.env[`GEMCP_${role.toUpperCase()}_BACKEND`]?.trim().toLowerCase() || process.env.GEMCP_BACKEND?.trim().toLowerCase() || undefined;
+}
+
+export function backendFor(key: TimeoutKey): Backend {
+  // Uploads go through the same backend as the text calls that reference them
+  const role: ModelRole = key === 'upload' ? 'text' : key;
+  const requested = requestedBackend(role);
+  if (requested && BACKEND_NAMES.includes(requested as Backend)) return requested as Backend;
+  if (BACKEND_CONFIG.vertex && (!BACKEND_CONFIG.apiKeys.length || VERTEX_PREFERRED_ROLES.includes(role))) return 'vertex';
+  return 'gemini';
+}
+
+// What stops some or all tools from working, as actionable sentences. Empty when fully configured.
+export function configurationProblems(): string[] {
+  const problems: string[] = [];
+  if (!isBackendConfigured('gemini') && !isBackendConfigured('vertex')) {
+    problems.push('No backend is configured: set GEMINI_API_KEY (Gemini API), or GOOGLE_CLOUD_PROJECT (Vertex AI).');
+    return problems;
+  }
+  for (const name of ['GEMCP_BACKEND', ...ROLES.map(r => `GEMCP_${r.toUpperCase()}_BACKEND`)]) {
+    const value = process.env[name]?.trim().toLowerCase();
+    if (value && !BACKEND_NAMES.includes(value as Backend)) problems.push(`${name} must be one of ${BACKEND_NAMES.join(', ')}, got "${value}".`);
+  }
+  const missing = new Map<Backend, ModelRole[]>();
+  for (const role of ROLES) {
+    const backend = backendFor(role);
+    if (!isBackendConfigured(backend)) missing.set(backend, [...(missing.get(backend) || []), role]);
+  }
+  if (missing.has('gemini')) problems.push(`The ${missing.get('gemini')!.join(', ')} role(s) use the Gemini API, but GEMINI_API_KEY is not set.`);
+  if (missing.has('vertex')) problems.push(`The ${missing.get('vertex')!.join(', ')} role(s) use Vertex AI, but GOOGLE_CLOUD_PROJECT is not set.`);
+  const keyFile = BACKEND_CONFIG.vertex?.keyFile;
+  if (keyFile && !existsSync(keyFile)) problems.push(`GOOGLE_APPLICATION_CREDENTIALS points to ${keyFile}, which does not exist.`);
+  return problems;
+}
+
+export function anyBackendConfigured(): boolean {
+  return isBackendConfigured('gemini') || isBackendConfigured('vertex');
+}
+
+const clients = new Map<string, GoogleGenAI>();
+
+function cachedClient(id: string, create: () => GoogleGenAI): GoogleGenAI {
+  let client = clients.get(id);
+  if (!client) {
+    client = create();
+    clients.set(id, client);
+  }
+  return client;
+}
+
+// When each API key may be used again after hitting its quota
+const keyCooldowns = new Map<string, number>();
+
+// Quota errors without a retry delay bench the key for this long
+const KEY_COOLDOWN_MS = 60_000;
+
+function keyOf(client: GoogleGenAI): string | undefined {
+  return BACKEND_CONFIG.apiKeys.find(key => clients.get(`key:${key}`) === client);
+}
+
+// The client for a role's backend. With several API keys, the first one not cooling down after a
+// quota error; with `primary`, always the first key, for resources tied to one key (Batch API jobs).
+export function getClient(key: TimeoutKey, options: { primary?: boolean } = {}): GoogleGenAI {
+  const backend = backendFor(key);
+  if (backend === 'vertex') {
+    const vertex = BACKEND_CONFIG.vertex;
+    if (!vertex) throw new GeminiError('auth', `The ${key} role uses Vertex AI, but GOOGLE_CLOUD_PROJECT is not set.`, { hint: 'Set GOOGLE_CLOUD_PROJECT (and GOOGLE_CLOUD_LOCATION), or route this role to the Gemini API with GEMCP_BACKEND / GEMCP_<ROLE>_BACKEND=gemini. Run gemini_setup for details.' });
+    return cachedClient('vertex', () => new GoogleGenAI({
+      vertexai: true,
+      project: vertex.project,
+      location: vertex.location,
+      googleAuthOptions: vertex.keyFile ? { keyFile: vertex.keyFile } : undefined,
+    }));
+  }
+
+  const keys = BACKEND_CONFIG.apiKeys;
+  if (!keys.length) throw new GeminiError('auth', `The ${key} role uses the Gemini API, but GEMINI_API_KEY is not set.`, { hint: 'Set GEMINI_API_KEY, or route this role to Vertex AI with GEMCP_<ROLE>_BACKEND=vertex. Run gemini_setup for details.' });
+  const now = Date.now();
+  const apiKey = options.primary ? keys[0] : keys.find(k => (keyCooldowns.get(k) ?? 0) <= now) ?? keys[0];
+  return cachedClient(`key:${apiKey}`, () => new GoogleGenAI({ apiKey }));
+}
+
+// Bench the client's API key after a quota error. Returns true if another key is available now.
+function rotateKey(client: GoogleGenAI, retryAfterMs?: number): boolean {
+  const exhausted = keyOf(client);
+  if (!exhausted || BACKEND_CONFIG.apiKeys.length < 2) return false;
+  keyCooldowns.set(exhausted, Date.now() + (retryAfterMs ?? KEY_COOLDOWN_MS));
+  return BACKEND_CONFIG.apiKeys.some(k => (keyCooldowns.get(k) ?? 0) <= Date.now());
+}
+
+// Run an API call with a deadline and retries. `fn` receives the signal to hand to the SDK, which
+// fires on caller cancellation or when the deadline passes, and the client to call. A quota error
+// moves on to the next API key straight away; pass `client` to pin the call to one client instead
+// (e.g. when it references files uploaded with that key).
+export async function withRetry<T>(
+  key: TimeoutKey,
+  fn: (signal: AbortSignal, client: GoogleGenAI) => Promise<T>,
+  signal?: AbortSignal,
+  client?: GoogleGenAI
+): Promise<T> {
+  const timeoutMs = timeoutFor(key);
+  const deadline = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, deadline]) : deadline;
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const current = client ?? getClient(key);
+    try {
+      return await fn(combined, current);
+    } catch (error) {
+      const classified = signal?.aborted
+        ? new GeminiError('cancelled', 'The request was cancelled by the client.')
+        : deadline.aborted
+          ? new GeminiError('timeout', `No response within ${timeoutMs >= 1000 ? `${Math.round(timeoutMs / 1000)}s` : `${timeoutMs}ms`}.`, {
+            hint: `Try a lower thinking level or image size, or raise GEMINI_${key.toUpperCase()}_TIMEOUT_MS.`,
+          })
+          : classifyError(error, current.vertexai);
+
+      // Each rotation benches one key, so this cannot loop for longer than there are keys
+      if (classified.kind === 'quota' && !client && rotateKey(current, classified.retryAfterMs)) {
+        console.error('Gemini API key hit its quota, switching to the next key');
+        attempt--;
+        continue;
+      }
+
+      if (!classified.retryable || attempt >= MAX_RETRIES) throw classified;
+
+      // Full-jitter exponential backoff, unless the API told us how long to wait
+      const delay = classified.retryAfterMs ?? Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+      if (Date.now() - startedAt + delay >= timeoutMs) throw classified;
+      console.error(`Gemini ${classified.kind} error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay, combined);
+    }
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(signal.reason); };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Map SDK/network failures onto an error kind with an actionable message
+export function classifyError(error: unknown, vertex = false): GeminiError {
+  if (error instanceof GeminiError) return error;
+
+  if (error instanceof ApiError) {
+    const body = parseErrorBody(error.message);
+    const detail = body.message || error.message;
+    const status = error.status;
+    const code = body.status || '';
+
+    if (status === 401 || status === 403 || code === 'UNAUTHENTICATED' || code === 'PERMISSION_DENIED' || /API[_ ]KEY/i.test(body.reason || detail)) {
+      return new GeminiError('auth', detail, {
+        status,
+        hint: vertex
+          ? 'Check the Vertex AI credentials (GOOGLE_APPLICATION_CREDENTIALS, or run `gcloud auth application-default login`) and that the Vertex AI API is enabled for GOOGLE_CLOUD_PROJECT.'
+          : 'Check that GEMINI_API_KEY is valid and has access to this model (https://aistudio.google.com/apikey).',
+      });
+    }
+    if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+      return new GeminiError('quota', detail, {
+        status, retryable: true, retryAfterMs: body.retryAfterMs,
+        hint: 'Wait and retry, switch to a cheaper model with the `model` argument, or raise your quota in Google AI Studio.',
+      });
+    }
+    if (status >= 500 || code === 'UNAVAILABLE' || code === 'INTERNAL' || code === 'DEADLINE_EXCEEDED') {
+      return new GeminiError('outage', detail, {
+        status, retryable: true, retryAfterMs: body.retryAfterMs,
+        hint: 'The Gemini API is having problems; try again shortly.',
+      });
+    }
+    if (status >= 400) {
+      return new GeminiError('invalid_argument', detail, {
+        status,
+        hint: 'Check the arguments (model, sizes, file types) - retrying the same request will not help.',
+      });
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/only supported by the Vertex AI/i.test(message)) {
+    return new GeminiError('invalid_argument', message, { hint: 'This operation needs the Vertex AI backend: set GOOGLE_CLOUD_PROJECT and route this role with GEMCP_<ROLE>_BACKEND=vertex.' });
+  }
+  // google-auth-library failures: no Application Default Credentials, or a revoked/expired credential
+  if (/Could not load the default credentials|invalid_grant|Could not refresh access token/i.test(message)) {
+    return new GeminiError('auth', message, {
+      hint: 'Vertex AI needs credentials: run `gcloud auth application-default login`, or set GOOGLE_APPLICATION_CREDENTIALS to a service-account JSON file.',
+    });
+  }
+  if (/not supported in Vertex AI|only supported by the Gemini Developer API/i.test(message)) {
+    return new GeminiError('invalid_argument', message, { hint: 'This operation needs the Gemini API backend: set GEMINI_API_KEY and route this role with GEMCP_<ROLE>_BACKEND=gemini.' });
+  }
+  // Network failures surface as plain errors from fetch
+  if (/fetch failed|sending request|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|network/i.test(message)) {
+    return new GeminiError('outage', `Network error: ${message}`, { retryable: true, hint: 'Check your network connection.' });
+  }
+  return new GeminiError('unknown', message);
+}
+
+// ApiError messages embed the JSON error body. The SDK drops response headers, so the
+// Retry-After hint is read from the body's RetryInfo.retryDelay instead.
+function parseErrorBody(message: string): { message?: string; status?: string; reason?: string; retryAfterMs?: number } {
+  const start = message.indexOf('{');
+  if (start === -1) return {};
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    const err = parsed.error ?? parsed;
+    const details: Array<Record<string, unknown>> = Array.isArray(err.details) ? err.details : [];
+    const retryDelay = details.find(d => typeof d.retryDelay === 'string')?.retryDelay as string | undefined;
+    const reason = details.find(d => typeof d.reason === 'string')?.reason as string | undefined;
+    const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+    return {
+      message: typeof err.message === 'string' ? err.message : undefined,
+      status: typeof err.status === 'string' ? err.status : undefined,
+      reason,
+      retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+]);
+
+// A candidate with content that was not stopped by a safety or recitation filter
+export function isUsableCandidate(candidate: Candidate): boolean {
+  return !(candidate.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason)) && Boolean(candidate.content?.parts?.length);
+}
+
+// Turn blocked prompts, filtered candidates and empty replies into errors instead of empty content.
+// With several candidates, one usable candidate is enough.
+export function assertResponseOk(response: GenerateContentResponse): void {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new GeminiError('safety', `The prompt was blocked (${feedback.blockReason})${feedback.blockReasonMessage ? `: ${feedback.blockReasonMessage}` : ''}${formatRatings(feedback.safetyRatings)}`, {
+      blockReason: feedback.blockReason,
+      hint: 'Rephrase the prompt or remove the flagged content.',
+    });
+  }
+
+  const candidate = response.candidates?.find(isUsableCandidate) ?? response.candidates?.[0];
+  if (!candidate) {
+    throw new GeminiError('empty', 'Gemini returned no candidates.', { hint: 'Retry, or rephrase the prompt.' });
+  }
+
+  const finishReason = candidate.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    throw new GeminiError('safety', `Generation stopped (${finishReason})${candidate.finishMessage ? `: ${candidate.finishMessage}` : ''}${formatRatings(candidate.safetyRatings)}`, {
+      blockReason: finishReason,
+      hint: finishReason.includes('RECITATION')
+        ? 'The output closely matched copyrighted material; ask for something more original.'
+        : 'Rephrase the prompt or remove the flagged content.',
+    });
+  }
+
+  if (!candidate.content?.parts?.length) {
+    throw new GeminiError('empty', `Gemini returned no content${finishReason ? ` (finishReason: ${finishReason})` : ''}.`, {
+      hint: finishReason === 'MAX_TOKENS' ? 'Increase max_tokens or lower the thinking level.' : 'Retry, or rephrase the prompt.',
+    });
+  }
+}
+
+// Imagen reports filtered images through raiFilteredReason instead of finish reasons
+export function assertImagesOk(response: { generatedImages?: Array<{ image?: { imageBytes?: string }; raiFilteredReason?: string }> }): void {
+  if (response.generatedImages?.some(img => img.image?.imageBytes)) return;
+  const reason = response.generatedImages?.find(img => img.raiFilteredReason)?.raiFilteredReason;
+  if (reason) {
+    throw new GeminiError('safety', reason, { blockReason: reason, hint: 'Adjust the prompt or input image and try again.' });
+  }
+  throw new GeminiError('empty', 'Imagen returned no images.', { hint: 'Retry, or adjust the prompt.' });
+}
+
+function formatRatings(ratings?: SafetyRating[]): string {
+  const flagged = ratings?.filter(r => r.blocked || r.probability === 'HIGH' || r.probability === 'MEDIUM');
+  if (!flagged?.length) return '';
+  return `\nFlagged categories: ${flagged.map(r => `${r.category} (${r.probability}${r.blocked ? ', blocked' : ''})`).join(', ')}`;
+}
@@ -0,0 +1,188 @@
+// gemcp.config.json: per-project and per-user defaults. The file in the working directory takes
+// precedence over the one in the home directory, and environment variables over both.
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { z } from "zod";
+
+const CONFIG_FILE_NAME = "gemcp.config.json";
+
+const TextDefaultsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  max_tokens: z.number().int().min(1).optional(),
+  thinking_level: z.enum(["low", "high"]).optional(),
+}).strict();
+
+const ConfigFileSchema = z.object({
+  $schema: z.string().optional(),
+  // Default model per role, like the GEMINI_*_MODEL variables
+  models: z.object({
+    text: z.string().optional(),
+    svg: z.string().optional(),
+    segment: z.string().optional(),
+    detect: z.string().optional(),
+    vision: z.string().optional(),
+    image: z.string().optional(),
+    imagen: z.string().optional(),
+    edit: z.string().optional(),
+    upscale: z.string().optional(),
+  }).strict().optional(),
+  generation: z.object({
+    text: TextDefaultsSchema.optional(),
+    image: z.object({
+      image_size: z.enum(["1K", "2K", "4K"]).optional(),
+      aspect_ratio: z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]).optional(),
+    }).strict().optional(),
+    svg: z.object({
+      temperature: z.number().min(0).max(2).optional(),
+      instructions: z.string().optional(),
+    }).strict().optional(),
+    segment: z.object({
+      prompt: z.string().optional(),
+    }).strict().optional(),
+  }).strict().optional(),
+  // Added to every image and SVG prompt
+  brand: z.object({
+    style: z.string().optional(),
+    palette: z.array(z.string()).optional(),
+  }).strict().optional(),
+  // Relative paths are resolved against the directory of the file that sets them
+  output: z.object({
+    dir: z.string().optional(),
+    roots: z.array(z.string()).min(1).optional(),
+    overwrite: z.enum(["error", "suffix", "replace"]).optional(),
+  }).strict().optional(),
+  // Tools to register, as names or globs (gemini_session_*); everything when absent
+  tools: z.array(z.string()).optional(),
+}).strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export interface LoadedConfigFile {
+  path: string;
+  config: ConfigFile;
+}
+
+export interface ConfigValue {
+  value: unknown;
+  // "built-in", "env NAME" or the path of the config file
+  source: string;
+}
+
+async function loadConfigFile(path: string): Promise<LoadedConfigFile | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new Error(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = ConfigFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${path}:\n${parsed.error.issues.map(issue => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n")}`);
+  }
+
+  const config = parsed.data;
+  if (config.output) {
+    const base = dirname(path);
+    if (config.output.dir) config.output.dir = resolve(base, config.output.dir);
+    if (config.output.roots) config.output.roots = config.output.roots.map(root => resolve(base, root));
+  }
+  return { path, config };
+}
+
+// Highest precedence first: the working directory, then the home directory
+export const CONFIG_SEARCH_PATHS = [...new Set([join(process.cwd(), CONFIG_FILE_NAME), join(homedir(), CONFIG_FILE_NAME)])];
+
+export const CONFIG_FILES = (await Promise.all(CONFIG_SEARCH_PATHS.map(loadConfigFile)))
+  .filter((f): f is LoadedConfigFile => Boolean(f));
+
+// Every setting read through configured(), keyed by its dotted path, for gemini_config
+const effective = new Map<string, ConfigValue>();
+
+function valueAt(config: ConfigFile, key: string): unknown {
+  let value: unknown = config;
+  for (const part of key.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+// A setting's value from the environment, else the config files, else the built-in default
+export function configured<T>(key: string, builtIn: T, envName?: string, parseEnv: (raw: string) => T = raw => raw as T): T {
+  const raw = envName ? process.env[envName]?.trim() : undefined;
+  let setting: ConfigValue = { value: builtIn, source: "built-in" };
+  if (raw) {
+    setting = { value: parseEnv(raw), source: `env ${envName}` };
+  } else {
+    for (const file of CONFIG_FILES) {
+      const value = valueAt(file.config, key);
+      if (value !== undefined) {
+        setting = { value, source: file.path };
+        break;
+      }
+    }
+  }
+  effective.set(key, setting);
+  return setting.value as T;
+}
+
+export function effectiveConfig(): Array<[string, ConfigValue]> {
+  return [...effective.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+export const GENERATION_DEFAULTS = {
+  text: {
+    temperature: configured<number | undefined>("generation.text.temperature", undefined),
+    topP: configured<number | undefined>("generation.text.top_p", undefined),
+    maxTokens: configured<number | undefined>("generation.text.max_tokens", undefined),
+    thinkingLevel: configured<'low' | 'high' | undefined>("generation.text.thinking_level", undefined),
+  },
+  image: {
+    imageSize: configured<'1K' | '2K' | '4K' | undefined>("generation.image.image_size", undefined),
+    aspectRatio: configured<string | undefined>("generation.image.aspect_ratio", undefined),
+  },
+  svg: {
+    temperature: configured("generation.svg.temperature", 0.7),
+    instructions: configured("generation.svg.instructions", 'You are an expert SVG designer. Generate clean, optimized SVG code. Output ONLY the SVG code with no markdown fences or explanation. The SVG should be self-contained with proper viewBox and xmlns attributes.'),
+  },
+  segment: {
+    prompt: configured("generation.segment.prompt", 'Give the segmentation masks for all objects. Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label". Use descriptive labels.'),
+  },
+};
+
+const BRAND = {
+  style: configured<string | undefined>("brand.style", undefined),
+  palette: configured<string[] | undefined>("brand.palette", undefined),
+};
+
+// Brand instructions for image and SVG prompts, or undefined when no brand is configured
+export function brandInstructions(): string | undefined {
+  const lines = [
+    BRAND.style ? `Brand style: ${BRAND.style}` : '',
+    BRAND.palette?.length ? `Brand palette: ${BRAND.palette.join(', ')}` : '',
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+const TOOL_ALLOW_LIST = configured<string[] | undefined>("tools", undefined);
+
+// Whether the allow-list lets a tool be registered; gemini_setup always is
+export function toolAllowed(name: string): boolean {
+  if (!TOOL_ALLOW_LIST || name === "gemini_setup") return true;
+  return TOOL_ALLOW_LIST.some(pattern => new Bun.Glob(pattern).match(name));
+}
+
+// Allow-list entries that match none of the given tool names, most likely typos
+export function unmatchedToolPatterns(names: string[]): string[] {
+  return (TOOL_ALLOW_LIST ?? []).filter(pattern => !names.some(name => new Bun.Glob(pattern).match(name)));
+}
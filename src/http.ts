@@ -0,0 +1,144 @@
+// Streamable HTTP transport (--http), so a team can share one server and one API key. Every MCP
+// session gets its own McpServer; requests must carry the configured bearer token.
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpSettings {
+  host: string;
+  port: number;
+  token: string;
+}
+
+// Sessions with no request for this long are closed; clients that vanish never send DELETE
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+
+function flagValue(args: string[], name: string): string | undefined {
+  const index = args.findIndex(a => a === name || a.startsWith(`${name}=`));
+  if (index === -1) return undefined;
+  const arg = args[index];
+  return arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : args[index + 1];
+}
+
+// HTTP settings from the command line (--http, --port, --host) and environment, or undefined for stdio.
+// The token only comes from the environment or a file, never argv, where other users could read it.
+export async function httpSettings(args: string[]): Promise<HttpSettings | undefined> {
+  if (!args.includes("--http")) return undefined;
+
+  const portText = flagValue(args, "--port") ?? process.env.GEMCP_HTTP_PORT ?? "8787";
+  const port = Number(portText);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid HTTP port "${portText}"`);
+  const host = flagValue(args, "--host") ?? process.env.GEMCP_HTTP_HOST ?? "127.0.0.1";
+
+  let token = process.env.GEMCP_HTTP_TOKEN?.trim();
+  const tokenFile = process.env.GEMCP_HTTP_TOKEN_FILE;
+  if (!token && tokenFile) {
+    try {
+      token = (await readFile(resolve(tokenFile), "utf-8")).trim();
+    } catch (error) {
+      throw new Error(`Could not read GEMCP_HTTP_TOKEN_FILE ${tokenFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!token) {
+    throw new Error("--http requires a bearer token: set GEMCP_HTTP_TOKEN, or GEMCP_HTTP_TOKEN_FILE to a file containing it");
+  }
+  return { host, port, token };
+}
+
+// Compare digests so neither the token's contents nor its length leak through timing
+function tokenMatches(header: string | null, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header?.trim() ?? "");
+  if (!match) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function jsonRpcError(status: number, code: number, message: string, headers?: Record<string, string>): Response {
+  return Response.json({ jsonrpc: "2.0", error: { code, message }, id: null }, { status, headers });
+}
+
+interface HttpSession {
+  server: McpServer;
+  transport: WebStandardStreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+// Serve MCP at /mcp and an unauthenticated health check at /health. Returns a function that
+// closes every session and stops listening.
+export function serveHttp(
+  createServer: () => McpServer,
+  settings: HttpSettings,
+  health: () => Record<string, unknown>
+): { url: string; close: () => Promise<void> } {
+  const sessions = new Map<string, HttpSession>();
+
+  const closeSession = async (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server.close().catch((error) => console.error(`Failed to close session ${id}:`, error));
+  };
+
+  const sweep = setInterval(() => {
+    for (const [id, session] of sessions) {
+      if (Date.now() - session.lastSeen > SESSION_IDLE_MS) void closeSession(id);
+    }
+  }, 60_000);
+  sweep.unref();
+
+  const httpServer = Bun.serve({
+    hostname: settings.host,
+    port: settings.port,
+    // SSE streams stay open for as long as a tool runs; Bun's default idle timeout would cut them
+    idleTimeout: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url);
+      if (pathname === HEALTH_PATH && req.method === "GET") {
+        return Response.json({ status: "ok", sessions: sessions.size, ...health() });
+      }
+      if (pathname !== MCP_PATH) return jsonRpcError(404, -32000, `Not found. MCP is served at ${MCP_PATH}`);
+
+      if (!tokenMatches(req.headers.get("authorization"), settings.token)) {
+        return jsonRpcError(401, -32001, "Unauthorized: send Authorization: Bearer <token>", { "WWW-Authenticate": "Bearer" });
+      }
+
+      const sessionId = req.headers.get("mcp-session-id");
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session) return jsonRpcError(404, -32001, "Session not found. Start a new session with an initialize request.");
+        session.lastSeen = Date.now();
+        return session.transport.handleRequest(req);
+      }
+
+      // Without a session ID only an initialize request is accepted, and it starts a new session
+      const body: unknown = req.method === "POST" ? await req.json().catch(() => undefined) : undefined;
+      if (!isInitializeRequest(body)) {
+        return jsonRpcError(400, -32000, "Bad request: send an initialize request first, then the mcp-session-id header it returns");
+      }
+
+      const server = createServer();
+      const transport: WebStandardStreamableHTTPServerTransport = new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => { sessions.set(id, { server, transport, lastSeen: Date.now() }); },
+        onsessionclosed: (id) => closeSession(id),
+      });
+      await server.connect(transport);
+      return transport.handleRequest(req, { parsedBody: body });
+    },
+  });
+
+  return {
+    url: `http://${settings.host}:${httpServer.port}${MCP_PATH}`,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await httpServer.stop(true);
+    },
+  };
+}
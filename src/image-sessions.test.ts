@@ -0,0 +1,20 @@
+import { expect, test } from "bun:test";
+import { addVersion, createImageSession, loadImageSession } from "./image-sessions.js";
+
+test("concurrent versions of one session get distinct numbers and are all kept", async () => {
+  const session = await createImageSession({ model: "gemini-3-pro-image-preview", outputBase: "/tmp/gemcp-test/cat" });
+  const numbers: number[] = [];
+  const add = (prompt: string) => addVersion(session, { prompt, turns: [] }, async (number) => {
+    numbers.push(number);
+    return [`/tmp/gemcp-test/cat_v${number}.png`];
+  });
+
+  await Promise.all([add("make it blue"), add("make it red")]);
+
+  const stored = await loadImageSession(session.id);
+  expect(numbers.sort()).toEqual([1, 2]);
+  expect(stored.versions.map(v => [v.version, v.prompt, v.paths[0]])).toEqual([
+    [1, "make it blue", "/tmp/gemcp-test/cat_v1.png"],
+    [2, "make it red", "/tmp/gemcp-test/cat_v2.png"],
+  ]);
+});
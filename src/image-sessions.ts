@@ -0,0 +1,142 @@
+// Iterative image-editing sessions: a tree of versions, each holding the turns that produced it
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Content } from "@google/genai";
+import { DATA_DIR, readJsonFile, serialized, writeJsonFile } from "./store.js";
+
+const IMAGE_SESSIONS_DIR = join(DATA_DIR, "image-sessions");
+
+// Inline image data is kept out of the session JSON in content-addressed blob files
+const BLOB_PREFIX = "blob:";
+
+export interface ImageSessionSettings {
+  model: string;
+  imageSize?: '1K' | '2K' | '4K';
+  aspectRatio?: string;
+  // Output path without extension; versions are saved as <base>_v1.png, <base>_v2.png, ...
+  outputBase: string;
+}
+
+export interface ImageVersion {
+  version: number;
+  parent?: number;
+  prompt: string;
+  createdAt: string;
+  paths: string[];
+  text?: string;
+  // The user and model turns that produced this version; the full history is the chain back to v1
+  turns: Content[];
+}
+
+export interface ImageSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  settings: ImageSessionSettings;
+  versions: ImageVersion[];
+}
+
+function sessionPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid image session id "${id}"`);
+  return join(IMAGE_SESSIONS_DIR, `${id}.json`);
+}
+
+function blobDir(id: string): string {
+  return join(IMAGE_SESSIONS_DIR, id);
+}
+
+export async function createImageSession(settings: ImageSessionSettings): Promise<ImageSession> {
+  const now = new Date().toISOString();
+  const session: ImageSession = { id: randomUUID(), createdAt: now, updatedAt: now, settings, versions: [] };
+  await writeJsonFile(sessionPath(session.id), session);
+  return session;
+}
+
+export async function loadImageSession(id: string): Promise<ImageSession> {
+  const session = await readJsonFile<ImageSession>(sessionPath(id));
+  if (!session) throw new Error(`Unknown image session "${id}". Start one with gemini_image_session_start.`);
+  return session;
+}
+
+export function getVersion(session: ImageSession, version: number): ImageVersion {
+  const found = session.versions.find(v => v.version === version);
+  if (!found) {
+    throw new Error(`Image session "${session.id}" has no version ${version} (versions: ${session.versions.map(v => v.version).join(', ') || 'none'})`);
+  }
+  return found;
+}
+
+// Conversation leading up to (and including) a version, with image data restored
+export async function historyFor(session: ImageSession, version?: number): Promise<Content[]> {
+  const chain: ImageVersion[] = [];
+  for (let v = version === undefined ? undefined : getVersion(session, version); v; v = v.parent === undefined ? undefined : getVersion(session, v.parent)) {
+    chain.unshift(v);
+  }
+  const contents = chain.flatMap(v => v.turns);
+  return Promise.all(contents.map(async (turn) => ({
+    ...turn,
+    parts: await Promise.all((turn.parts || []).map(async (part) => {
+      const data = part.inlineData?.data;
+      if (!data?.startsWith(BLOB_PREFIX)) return part;
+      const bytes = await readFile(join(blobDir(session.id), data.slice(BLOB_PREFIX.length)));
+      return { ...part, inlineData: { ...part.inlineData, data: bytes.toString("base64") } };
+    })),
+  })));
+}
+
+export function versionPath(session: ImageSession, version: number, mimeType: string, index: number, count: number): string {
+  const ext = mimeType === 'image/png' ? '.png' : mimeType === 'image/webp' ? '.webp' : '.jpg';
+  return `${session.settings.outputBase}_v${version}${count > 1 ? `_${index + 1}` : ''}${ext}`;
+}
+
+// Save a new version. Its number is assigned from the stored session while no other version of
+// it is being added; saveFiles writes the version's images under that number and returns their paths.
+export async function addVersion(
+  session: ImageSession,
+  entry: Omit<ImageVersion, "version" | "createdAt" | "paths">,
+  saveFiles: (version: number) => Promise<string[]>
+): Promise<{ session: ImageSession; version: ImageVersion }> {
+  await mkdir(blobDir(session.id), { recursive: true });
+  const turns = await Promise.all(entry.turns.map(async (turn) => ({
+    ...turn,
+    parts: await Promise.all((turn.parts || []).map(async (part) => {
+      const data = part.inlineData?.data;
+      if (!data || data.startsWith(BLOB_PREFIX)) return part;
+      const bytes = Buffer.from(data, "base64");
+      const hash = createHash("sha256").update(bytes).digest("hex");
+      await writeFile(join(blobDir(session.id), hash), bytes);
+      return { ...part, inlineData: { ...part.inlineData, data: `${BLOB_PREFIX}${hash}` } };
+    })),
+  })));
+
+  return serialized(sessionPath(session.id), async () => {
+    const latest = await loadImageSession(session.id);
+    const number = nextVersion(latest);
+    const paths = await saveFiles(number);
+    const now = new Date().toISOString();
+    const version: ImageVersion = { ...entry, paths, turns, version: number, createdAt: now };
+    const updated = { ...latest, versions: [...latest.versions, version], updatedAt: now };
+    await writeJsonFile(sessionPath(session.id), updated);
+    return { session: updated, version };
+  });
+}
+
+function nextVersion(session: ImageSession): number {
+  return Math.max(0, ...session.versions.map(v => v.version)) + 1;
+}
+
+export async function listImageSessions(): Promise<ImageSession[]> {
+  let files: string[];
+  try {
+    files = await readdir(IMAGE_SESSIONS_DIR);
+  } catch {
+    return [];
+  }
+  const sessions = await Promise.all(
+    files.filter(f => f.endsWith(".json")).map(f => readJsonFile<ImageSession>(join(IMAGE_SESSIONS_DIR, f)))
+  );
+  return sessions
+    .filter((s): s is ImageSession => Boolean(s))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -1,68 +1,219 @@
 #!/usr/bin/env bun
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { readFile, writeFile } from "fs/promises";
-import { resolve, dirname, join } from "path";
+import { open, readFile } from "fs/promises";
+import { basename, resolve, dirname, isAbsolute, join } from "path";
 import { fileURLToPath } from "url";
 import { z } from "zod";
-import type { Image } from "@google/genai";
-import { callGemini, callGeminiWithMessages, callGeminiImage, callGeminiUpscale, callGeminiEdit, callGeminiSvg, callGeminiSegment } from "./utils.js";
+import type { Content, Image } from "@google/genai";
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { callGemini, callGeminiWithMessages, callGeminiSession, callGeminiImage, callGeminiImageSession, callGeminiUpscale, callGeminiEdit, callGeminiSvg, callGeminiIconSet, callGeminiSegment, callGeminiDetect, callGeminiDescribe, callGeminiOcr, callGeminiCompare, getTextBatch, stripCodeFences, submitTextBatch } from "./utils.js";
+import type { Attachment, CandidateResult, GeminiResult, ReferenceImage, SafetyRatingInfo, StreamOptions, TextOptions, Usage } from "./utils.js";
+import { BUDGETS, PROCESS_SESSION_ID, assertWithinBudget, dayOf, readLedger, recordUsage, sumCost } from "./ledger.js";
+import type { LedgerEntry } from "./ledger.js";
+import { MODELS, DEFAULT_MODELS, resolveModel } from "./models.js";
+import { appendTurns, createSession, deleteSession, forkSession, listSessions, loadSession } from "./sessions.js";
+import type { Session } from "./sessions.js";
+import { addVersion, createImageSession, getVersion, historyFor, listImageSessions, loadImageSession, versionPath } from "./image-sessions.js";
+import type { ImageSession } from "./image-sessions.js";
+import { rasterizeSvg } from "./svg.js";
+import { annotate, boxToPixels, countPixels, cutout, encodeMask, imageSize, placeMasks, unionMask } from "./masks.js";
+import type { ModelRole } from "./models.js";
+import { BATCH_LIMITS, assertCanStartBatch, batchCounts, createBatch, listBatches, loadBatch, resumeBatches, runBatch, saveBatch } from "./batches.js";
+import type { Batch, BatchItem, ItemResult } from "./batches.js";
+import { OUTPUT_POLICY, allowedInputPath, assertWritable, defaultOutputPath, writeOutput } from "./paths.js";
+import type { OverwritePolicy } from "./paths.js";
+import { PROVENANCE_SETTINGS, hashInputs, readProvenance, writeAsset } from "./provenance.js";
+import type { Provenance } from "./provenance.js";
+import { CACHE_SETTINGS, clearCache, listCacheEntries } from "./cache.js";
+import type { CacheOverride } from "./cache.js";
+import { httpSettings, serveHttp } from "./http.js";
+import { GeminiError, anyBackendConfigured, configurationProblems } from "./client.js";
+import { CONFIG_FILES, CONFIG_SEARCH_PATHS, GENERATION_DEFAULTS, effectiveConfig, toolAllowed, unmatchedToolPatterns } from "./config.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const pkg = JSON.parse(await readFile(join(__dirname, "../package.json"), "utf-8")) as { version: string };
 
-const apiKey = process.env.GEMINI_API_KEY;
-const isConfigured = Boolean(apiKey);
+const isConfigured = anyBackendConfigured();
 
 // Schema definitions using zod - passed directly to SDK which handles JSON schema conversion
+const CacheSchema = z.enum(["bypass", "refresh"]).optional()
+  .describe(`Response cache override: bypass skips the cache, refresh makes the call and replaces the cached entry. The cache is ${CACHE_SETTINGS.mode} (GEMCP_CACHE)`);
+
+const SafetyThresholdSchema = z.enum(["block_none", "block_only_high", "block_medium_and_above", "block_low_and_above", "off"]).optional();
+
+const SafetySettingsSchema = z.object({
+  harassment: SafetyThresholdSchema,
+  hate_speech: SafetyThresholdSchema,
+  sexually_explicit: SafetyThresholdSchema,
+  dangerous_content: SafetyThresholdSchema,
+  civic_integrity: SafetyThresholdSchema,
+}).optional().describe("Blocking threshold per harm category; categories left out keep the API default");
+
+// Sampling and safety controls gemini_generate and gemini_messages share
+const GenerationControlsSchema = {
+  thinking_budget: z.number().int().min(-1).optional().describe("Thinking token budget, for models that take one instead of a level (Gemini 2.5): 0 turns thinking off, -1 lets the model decide. Not combinable with thinking_level"),
+  presence_penalty: z.number().min(-2).max(2).optional().describe("Penalize tokens that already appeared, steering towards new content (-2 to 2)"),
+  frequency_penalty: z.number().min(-2).max(2).optional().describe("Penalize tokens by how often they appeared, discouraging repetition (-2 to 2)"),
+  seed: z.number().int().optional().describe("Random seed for more reproducible output"),
+  stop_sequences: z.array(z.string()).max(5).optional().describe("Stop generating at the first of these strings (up to 5)"),
+  candidate_count: z.number().int().min(1).max(8).optional().describe("Generate several alternative answers and return them all in `candidates`"),
+  safety_settings: SafetySettingsSchema,
+};
+
 const GeminiGenerateSchema = {
   prompt: z.string().describe("The input text or prompt for Gemini"),
+  attachments: z.array(z.string()).optional().describe("Paths to local files to send with the prompt (PDF, audio, video, images, text). Large files are uploaded via the Files API"),
   instructions: z.string().optional().describe("System instructions for the model"),
   thinking_level: z.enum(["low", "high"]).optional().describe("Thinking/reasoning depth level"),
   include_thoughts: z.boolean().optional().describe("Whether to include the model's reasoning in response"),
   max_tokens: z.number().optional().describe("Maximum tokens to generate"),
   temperature: z.number().min(0).max(2).optional().describe("Temperature for randomness (0-2)"),
   top_p: z.number().min(0).max(1).optional().describe("Top-p sampling parameter"),
+  ...GenerationControlsSchema,
+  response_schema: z.record(z.string(), z.unknown()).optional().describe("JSON Schema the response must conform to. Enables JSON mode; the reply is validated (with automatic repair retries) and returned as structured content in `data`"),
+  grounding: z.boolean().optional().describe("Ground the answer with Google Search and return numbered source citations"),
+  url_context: z.boolean().optional().describe("Let the model fetch and read URLs mentioned in the prompt"),
+  code_execution: z.boolean().optional().describe("Let the model write and run Python code; executed code and its output are returned"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.text}`),
 };
 
+const FunctionCallSchema = z.object({
+  id: z.string().optional().describe("Call ID, when the model assigned one; pass it back on the function_response"),
+  name: z.string().describe("Function name"),
+  args: z.record(z.string(), z.unknown()).describe("Arguments, matching the declared parameters"),
+  thought_signature: z.string().optional().describe("Opaque signature the model needs back with this call"),
+});
+
 const GeminiMessagesSchema = {
   messages: z.array(z.object({
-    role: z.enum(["user", "assistant", "system"]).describe("Message role"),
-    content: z.string().describe("Message content"),
+    role: z.enum(["user", "assistant", "system", "function_response"]).describe("Message role. function_response carries the result of a function the model called"),
+    content: z.string().optional().describe("Message content. Optional on assistant messages with function_calls and on function_response messages"),
+    attachments: z.array(z.string()).optional().describe("Paths to local files attached to this message"),
+    function_calls: z.array(FunctionCallSchema).optional().describe("Assistant messages: the function_calls of an earlier result, passed back unchanged (thought_signature included)"),
+    name: z.string().optional().describe("function_response messages: the function that was called"),
+    id: z.string().optional().describe("function_response messages: the id of the call this answers, when it had one"),
+    response: z.unknown().optional().describe("function_response messages: the function's result as JSON"),
   })).describe("Array of conversation messages"),
+  tools: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_.:-]{0,63}$/).describe("Function name: letters, digits, underscores, dots, colons and dashes, up to 64 characters"),
+    description: z.string().optional().describe("What the function does and when to call it"),
+    parameters: z.record(z.string(), z.unknown()).optional().describe("JSON Schema of the arguments"),
+  })).optional().describe("Functions the model may call. They are not run here: calls come back in `function_calls` for you to execute, and the conversation continues with the assistant message and one function_response message per call"),
+  tool_choice: z.enum(["auto", "any", "none"]).optional().describe("auto: the model decides whether to call a function. any: it must call one. none: it must answer in text"),
+  attachments: z.array(z.string()).optional().describe("Paths to local files attached to the last user message (PDF, audio, video, images, text). Large files are uploaded via the Files API"),
   instructions: z.string().optional().describe("System instructions for the model"),
   thinking_level: z.enum(["low", "high"]).optional().describe("Thinking/reasoning depth level"),
   include_thoughts: z.boolean().optional().describe("Whether to include the model's reasoning in response"),
   max_tokens: z.number().optional().describe("Maximum tokens to generate"),
   temperature: z.number().min(0).max(2).optional().describe("Temperature for randomness (0-2)"),
   top_p: z.number().min(0).max(1).optional().describe("Top-p sampling parameter"),
+  ...GenerationControlsSchema,
+  response_schema: z.record(z.string(), z.unknown()).optional().describe("JSON Schema the response must conform to. Enables JSON mode; the reply is validated (with automatic repair retries) and returned as structured content in `data`"),
+  grounding: z.boolean().optional().describe("Ground the answer with Google Search and return numbered source citations"),
+  url_context: z.boolean().optional().describe("Let the model fetch and read URLs mentioned in the prompt"),
+  code_execution: z.boolean().optional().describe("Let the model write and run Python code; executed code and its output are returned"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.text}`),
 };
 
+const SafetyRatingsOutputSchema = z.array(z.object({
+  category: z.string(),
+  probability: z.string(),
+  blocked: z.boolean().optional(),
+})).optional();
+
+// Structured output shared by gemini_generate and gemini_messages
+const GeminiTextOutputSchema = {
+  content: z.string().describe("Response text"),
+  reasoning: z.string().optional().describe("Model reasoning, when include_thoughts is set"),
+  data: z.unknown().optional().describe("Parsed JSON response, present when response_schema was given"),
+  citations: z.array(z.object({
+    index: z.number(),
+    title: z.string().optional(),
+    uri: z.string(),
+  })).optional().describe("Google Search sources, when grounding was enabled"),
+  code_executions: z.array(z.object({
+    language: z.string().optional(),
+    code: z.string(),
+    outcome: z.string().optional(),
+    output: z.string().optional(),
+  })).optional().describe("Code the model ran and its output, when code_execution was enabled"),
+  function_calls: z.array(FunctionCallSchema).optional().describe("Calls to the functions declared in tools. Run them, then continue the conversation with their results"),
+  finish_reason: z.string().optional().describe("Why generation stopped: STOP for a complete answer, MAX_TOKENS when it was cut off, ..."),
+  safety_ratings: SafetyRatingsOutputSchema.describe("Safety ratings of the answer"),
+  candidates: z.array(z.object({
+    index: z.number(),
+    content: z.string(),
+    reasoning: z.string().optional(),
+    finish_reason: z.string().optional(),
+    safety_ratings: SafetyRatingsOutputSchema,
+  })).optional().describe("Every candidate, when candidate_count is above 1; content holds the first usable one"),
+  usage: z.object({
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number(),
+  }).optional(),
+  cached: z.boolean().optional().describe("True when the response came from the local response cache"),
+};
+
+const ReferenceImagesSchema = z.union([
+  z.string(),
+  z.array(z.union([
+    z.string(),
+    z.object({
+      path: z.string(),
+      role: z.enum(["subject", "style", "background", "reference"]).optional().describe("How the model should use this image"),
+    }),
+  ])).min(1),
+]);
+
+const OverwriteSchema = z.enum(["error", "suffix", "replace"]).optional()
+  .describe(`What to do when an output file already exists: error, suffix (keep it and write name-1.ext) or replace. Defaults to ${OUTPUT_POLICY.overwrite} (GEMCP_OVERWRITE)`);
+
+const EmbedMetadataSchema = z.boolean().optional()
+  .describe(`Also embed the provenance record in the file (PNG text chunk or SVG <metadata>). Defaults to ${PROVENANCE_SETTINGS.embed} (GEMCP_EMBED_METADATA)`);
+
 const GeminiImageSchema = {
   prompt: z.string().describe("The image generation or editing prompt"),
-  input_image: z.string().optional().describe("Path to input image for editing/manipulation"),
-  output_path: z.string().optional().describe("Path to save the output image (without extension - format determined by API)"),
-  image_size: z.enum(["1K", "2K", "4K"]).optional().default("1K").describe("Output image size"),
-  aspect_ratio: z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]).optional().describe("Aspect ratio for generated image"),
-  negative_prompt: z.string().optional().describe("What to avoid in the generated image"),
-  num_images: z.number().min(1).max(4).optional().describe("Number of images to generate (1-4)"),
-  guidance_scale: z.number().optional().describe("How closely to follow the prompt (higher = more literal)"),
-  seed: z.number().optional().describe("Random seed for reproducible results"),
+  engine: z.enum(["gemini", "imagen"]).optional().default("gemini").describe("gemini: native Gemini image model (supports input_image editing). imagen: Imagen generateImages (text-to-image, supports the Imagen-only options below)"),
+  input_image: ReferenceImagesSchema.optional().describe("Path to an input image to edit, or a list of reference images (paths or {path, role} with role subject/style/background/reference) to compose from (gemini engine)"),
+  output_path: z.string().optional().describe("Path to save the output image (without extension - format determined by API). Defaults to a timestamped file in the output directory, and the image is also returned inline"),
+  overwrite: OverwriteSchema,
+  embed_metadata: EmbedMetadataSchema,
+  image_size: z.enum(["1K", "2K", "4K"]).optional().describe(`Output image size (defaults to ${GENERATION_DEFAULTS.image.imageSize ?? "1K"}; imagen supports 1K and 2K)`),
+  aspect_ratio: z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]).optional().describe("Aspect ratio for generated image (imagen supports 1:1, 3:4, 4:3, 9:16, 16:9)"),
+  negative_prompt: z.string().optional().describe("What to avoid in the generated image (imagen engine, Vertex AI only)"),
+  num_images: z.number().min(1).max(4).optional().describe("Number of images to generate (1-4, imagen engine)"),
+  guidance_scale: z.number().optional().describe("How closely to follow the prompt (higher = more literal, imagen engine)"),
+  person_generation: z.enum(["dont_allow", "allow_adult", "allow_all"]).optional().describe("Whether people may appear in the image (imagen engine)"),
+  output_format: z.enum(["png", "jpeg"]).optional().describe("Output image format (imagen engine)"),
+  seed: z.number().optional().describe("Random seed for reproducible results (imagen engine: Vertex AI only)"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.image}, or ${DEFAULT_MODELS.imagen} with the imagen engine`),
 };
 
 const GeminiUpscaleSchema = {
   input_image: z.string().describe("Path to input image to upscale"),
-  output_path: z.string().optional().describe("Path to save the upscaled image (without extension)"),
+  output_path: z.string().optional().describe("Path to save the upscaled image (without extension). Defaults to a timestamped file in the output directory, and the image is also returned inline"),
+  overwrite: OverwriteSchema,
+  embed_metadata: EmbedMetadataSchema,
   output_format: z.enum(["png", "jpeg", "webp"]).optional().describe("Output image format (supported in Imagen)"),
   jpeg_quality: z.number().min(0).max(100).optional().describe("JPEG compression quality (0-100)"),
   upscale_factor: z.enum(["x2", "x4"]).optional().default("x2").describe("Upscale factor"),
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.upscale}`),
 };
 
 const GeminiEditSchema = {
   prompt: z.string().describe("Description of the edit to make"),
   input_image: z.string().describe("Path to input image to edit"),
   mask_image: z.string().optional().describe("Path to mask image (white areas will be edited)"),
-  output_path: z.string().optional().describe("Path to save the edited image (without extension)"),
+  output_path: z.string().optional().describe("Path to save the edited image (without extension). Defaults to a timestamped file in the output directory, and the image is also returned inline"),
+  overwrite: OverwriteSchema,
+  embed_metadata: EmbedMetadataSchema,
   edit_mode: z.enum(["inpaint", "outpaint"]).optional().describe("Edit mode: inpaint fills masked areas, outpaint extends image"),
   output_format: z.enum(["png", "jpeg", "webp"]).optional().describe("Output image format (supported in Imagen)"),
   jpeg_quality: z.number().min(0).max(100).optional().describe("JPEG compression quality (0-100)"),
@@ -70,35 +221,813 @@ const GeminiEditSchema = {
   num_images: z.number().min(1).max(4).optional().describe("Number of variations to generate (1-4)"),
   guidance_scale: z.number().optional().describe("How closely to follow the prompt"),
   seed: z.number().optional().describe("Random seed for reproducible results"),
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.edit}`),
 };
 
 const GeminiSvgSchema = {
-  prompt: z.string().describe("Description of the SVG to generate (e.g., 'a minimalist logo of a mountain')"),
-  output_path: z.string().optional().describe("Path to save the SVG file"),
+  prompt: z.string().describe("Description of the SVG to generate (e.g., 'a minimalist logo of a mountain'), or the change to make when input_svg is given"),
+  input_svg: z.string().optional().describe("Path to an existing SVG to modify (e.g. 'make the stroke 2px and use our brand palette')"),
+  output_path: z.string().optional().describe("Path to save the SVG file. Defaults to a timestamped file in the output directory, and the SVG is also returned inline"),
+  overwrite: OverwriteSchema,
+  embed_metadata: EmbedMetadataSchema,
   instructions: z.string().optional().describe("Custom system instructions for SVG generation"),
+  optimize: z.boolean().optional().default(true).describe("Minify and optimize the SVG (scripts, event handlers and remote references are always removed)"),
+  preview: z.boolean().optional().default(false).describe("Also return a rasterized PNG preview as an image"),
+  preview_size: z.number().int().min(16).max(2048).optional().default(512).describe("Longer side of the PNG preview in pixels"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.svg}`),
+};
+
+const GeminiSvgIconsSchema = {
+  concepts: z.array(z.string()).min(1).max(50).describe("Icon concepts, one per icon (e.g. ['home', 'search', 'settings'])"),
+  output_dir: z.string().describe("Directory to write <concept>.svg files and manifest.json into"),
+  overwrite: OverwriteSchema,
+  embed_metadata: EmbedMetadataSchema,
+  grid: z.number().int().min(8).max(512).optional().default(24).describe("Icon grid size; every icon uses viewBox 0 0 grid grid"),
+  stroke_width: z.number().min(0).optional().describe("Stroke width every icon must use"),
+  palette: z.array(z.string()).optional().describe("Colors the icons may use (e.g. ['#1a1a2e', 'currentColor']); anything else is sent back for repair"),
+  style: z.string().optional().describe("Shared style direction (e.g. 'outline, rounded caps and joins, no fills')"),
+  optimize: z.boolean().optional().default(true).describe("Minify and optimize each SVG"),
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.svg}`),
 };
 
 const GeminiSegmentSchema = {
   input_image: z.string().describe("Path to input image to segment"),
   prompt: z.string().optional().describe("Custom segmentation prompt (e.g., 'segment only the person' or 'find the background')"),
-  output_mask_path: z.string().optional().describe("Path to save the combined mask as PNG (white = selected, black = background)"),
+  output_mask_path: z.string().optional().describe("Path to save the combined mask as PNG at full image size (white = selected, black = background)"),
+  labels: z.array(z.string()).optional().describe("Only combine segments whose label contains one of these (case-insensitive) into the mask and cutout"),
+  output_segments_dir: z.string().optional().describe("Directory to save one full-size mask PNG per segment"),
+  output_cutout_path: z.string().optional().describe("Path to save a PNG of the input image with everything outside the combined mask transparent"),
+  overwrite: OverwriteSchema,
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.segment}`),
+};
+
+const PixelBoxSchema = z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).describe("Pixel bounding box");
+
+const GeminiDetectSchema = {
+  input_image: z.string().describe("Path to input image to analyze"),
+  labels: z.array(z.string()).optional().describe("Only detect objects matching these labels (e.g. ['button', 'text field'])"),
+  max_objects: z.number().int().min(1).optional().describe("Maximum number of objects to return, most prominent first"),
+  prompt: z.string().optional().describe("Extra detection instructions (e.g. 'only elements in the top toolbar')"),
+  annotate: z.boolean().optional().default(false).describe("Return a copy of the image with boxes and labels drawn on it"),
+  output_annotated_path: z.string().optional().describe("Path to save the annotated image as PNG (implies annotate)"),
+  overwrite: OverwriteSchema,
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.detect}`),
+};
+
+const GeminiDetectOutputSchema = {
+  width: z.number().describe("Image width in pixels"),
+  height: z.number().describe("Image height in pixels"),
+  objects: z.array(z.object({
+    index: z.number(),
+    label: z.string(),
+    box_2d: z.array(z.number()).describe("[ymin, xmin, ymax, xmax] normalized to 0-1000"),
+    box: PixelBoxSchema,
+  })),
+  annotated_path: z.string().optional(),
+};
+
+const GeminiDescribeSchema = {
+  images: z.array(z.string()).min(1).describe("Paths to one or more local images"),
+  style: z.enum(["caption", "alt_text", "detailed"]).optional().default("detailed").describe("caption: one sentence. alt_text: short accessible description. detailed: full description"),
+  focus: z.string().optional().describe("What to concentrate on (e.g. 'the chart's trend', 'clothing')"),
+  max_tokens: z.number().optional().describe("Maximum tokens in response"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.vision}`),
 };
 
-function getMimeType(path: string): string {
+const GeminiOcrSchema = {
+  input_image: z.string().describe("Path to the image to read text from"),
+  format: z.enum(["text", "markdown"]).optional().default("text").describe("Reconstruct the full text as plain text or as Markdown (headings, lists, tables)"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.vision}`),
+};
+
+const GeminiOcrOutputSchema = {
+  text: z.string().describe("Full text reconstruction in the requested format"),
+  blocks: z.array(z.object({
+    text: z.string(),
+    kind: z.string(),
+    box_2d: z.array(z.number()).describe("[ymin, xmin, ymax, xmax] normalized to 0-1000"),
+    box: PixelBoxSchema,
+  })),
+};
+
+const GeminiCompareSchema = {
+  before_image: z.string().describe("Path to the original image (e.g. the before screenshot)"),
+  after_image: z.string().describe("Path to the new image to compare against it"),
+  focus: z.string().optional().describe("Only report differences in this area or aspect (e.g. 'the navigation bar', 'text content')"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.vision}`),
+};
+
+const GeminiCompareOutputSchema = {
+  identical: z.boolean(),
+  summary: z.string(),
+  differences: z.array(z.object({
+    type: z.enum(["added", "removed", "changed", "moved"]),
+    description: z.string(),
+    image: z.enum(["before", "after"]).describe("Which image the box refers to"),
+    box_2d: z.array(z.number()).optional().describe("[ymin, xmin, ymax, xmax] normalized to 0-1000"),
+    box: PixelBoxSchema.optional(),
+  })),
+};
+
+const GeminiSessionStartSchema = {
+  message: z.string().optional().describe("Optional first message to send right away"),
+  attachments: z.array(z.string()).optional().describe("Paths to local files attached to the first message"),
+  instructions: z.string().optional().describe("System instructions for the whole session"),
+  thinking_level: z.enum(["low", "high"]).optional().describe("Thinking/reasoning depth level"),
+  include_thoughts: z.boolean().optional().describe("Whether to include the model's reasoning in responses"),
+  max_tokens: z.number().optional().describe("Maximum tokens to generate per reply"),
+  temperature: z.number().min(0).max(2).optional().describe("Temperature for randomness (0-2)"),
+  top_p: z.number().min(0).max(1).optional().describe("Top-p sampling parameter"),
+  grounding: z.boolean().optional().describe("Ground answers with Google Search and return numbered source citations"),
+  url_context: z.boolean().optional().describe("Let the model fetch and read URLs mentioned in messages"),
+  code_execution: z.boolean().optional().describe("Let the model write and run Python code"),
+  model: z.string().optional().describe(`Model ID (see gemini_models), fixed for the session. Defaults to ${DEFAULT_MODELS.text}`),
+};
+
+const GeminiSessionSendSchema = {
+  session_id: z.string().describe("Session ID from gemini_session_start"),
+  message: z.string().describe("Next user message"),
+  attachments: z.array(z.string()).optional().describe("Paths to local files attached to this message"),
+  response_schema: z.record(z.string(), z.unknown()).optional().describe("JSON Schema this reply must conform to; returned as structured content in `data`"),
+};
+
+const GeminiSessionHistorySchema = {
+  session_id: z.string().optional().describe("Session to show. Omit to list all sessions"),
+  include_thoughts: z.boolean().optional().describe("Include the model's stored thought summaries"),
+};
+
+const GeminiSessionForkSchema = {
+  session_id: z.string().describe("Session to copy"),
+  turns: z.number().int().min(0).optional().describe("Keep only the first N turns (see gemini_session_history numbering). Defaults to all"),
+};
+
+const GeminiSessionDeleteSchema = {
+  session_id: z.string().describe("Session to delete"),
+};
+
+const GeminiImageSessionStartSchema = {
+  prompt: z.string().describe("Prompt for the first version"),
+  output_path: z.string().describe("Base path for versioned outputs without extension: e.g. 'out/logo' saves out/logo_v1.png, out/logo_v2.png, ..."),
+  input_image: ReferenceImagesSchema.optional().describe("Path to an image to start editing from, or a list of reference images (paths or {path, role})"),
+  image_size: z.enum(["1K", "2K", "4K"]).optional().describe(`Output image size for the session (defaults to ${GENERATION_DEFAULTS.image.imageSize ?? "1K"})`),
+  aspect_ratio: z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]).optional().describe("Aspect ratio for the session"),
+  cache: CacheSchema,
+  model: z.string().optional().describe(`Model ID (see gemini_models). Defaults to ${DEFAULT_MODELS.image}`),
+};
+
+const GeminiImageSessionEditSchema = {
+  session_id: z.string().describe("Image session ID from gemini_image_session_start"),
+  prompt: z.string().describe("The refinement to make (e.g. 'now make the sky darker')"),
+  from_version: z.number().int().min(1).optional().describe("Version to edit; an earlier version starts a new branch. Defaults to the latest version"),
+  input_image: ReferenceImagesSchema.optional().describe("Extra reference image(s) for this turn (paths or {path, role})"),
+  image_size: z.enum(["1K", "2K", "4K"]).optional().describe("Override the session's output size for this turn"),
+  aspect_ratio: z.enum(["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"]).optional().describe("Override the session's aspect ratio for this turn"),
+  cache: CacheSchema,
+};
+
+const GeminiImageSessionHistorySchema = {
+  session_id: z.string().optional().describe("Image session to show. Omit to list all image sessions"),
+};
+
+const GeminiUsageReportSchema = {
+  days: z.number().int().min(1).optional().default(7).describe("How many days back to report, including today (UTC)"),
+  model: z.string().optional().describe("Only include calls to this model"),
+  tool: z.string().optional().describe("Only include calls from this tool"),
+};
+
+const GeminiCacheSchema = {
+  action: z.enum(["stats", "list", "clear"]).optional().default("stats").describe("stats: totals by kind and model. list: the most recently used entries. clear: remove entries"),
+  kind: z.string().optional().describe("Only entries made by this kind of call (text, image, svg, segment, detect)"),
+  model: z.string().optional().describe("Only entries for this model"),
+  expired_only: z.boolean().optional().default(false).describe("Only entries past the TTL"),
+  limit: z.number().int().min(1).optional().default(20).describe("How many entries list shows"),
+};
+
+// Tools a batch item may call
+const BATCH_TOOLS = ["gemini_image", "gemini_upscale", "gemini_edit", "gemini_svg", "gemini_generate"] as const;
+
+const GeminiBatchSubmitSchema = {
+  tool: z.enum(BATCH_TOOLS).optional().describe("Tool each item calls. Required with glob; with jobs_file it is the default for lines that do not name their own tool"),
+  jobs_file: z.string().optional().describe("Path to a JSONL job spec: one item per line, either the tool's arguments or {\"tool\": ..., \"args\": {...}}"),
+  glob: z.string().optional().describe("Glob of input files (e.g. 'photos/*.jpg'), one item per match, with arguments built from args"),
+  args: z.record(z.string(), z.unknown()).optional().describe("Argument template for glob items. In string values {path}, {file}, {name} (file name without extension), {dir} and {index} are replaced per match, e.g. {\"input_image\": \"{path}\", \"output_path\": \"out/{name}_2x\"}"),
+  concurrency: z.number().int().min(1).max(8).optional().default(2).describe("How many items run at the same time (local mode)"),
+  rate_per_minute: z.number().positive().optional().describe("Most items started per minute (local mode)"),
+  mode: z.enum(["local", "batch_api"]).optional().default("local").describe("local: run items in this server, resuming after a restart. batch_api: submit gemini_generate items as one asynchronous Gemini Batch API job (discounted, finishes within 24 hours)"),
+};
+
+const GeminiBatchStatusSchema = {
+  batch_id: z.string().optional().describe("Batch to check; omit to list recent batches"),
+};
+
+const GeminiBatchResultsSchema = {
+  batch_id: z.string().describe("Batch ID from gemini_batch_submit"),
+  status: z.enum(["succeeded", "failed", "all"]).optional().default("all").describe("Only return items with this outcome"),
+  output_path: z.string().optional().describe("Also write the item results to this JSONL file"),
+};
+
+const GeminiRegenerateSchema = {
+  path: z.string().describe("A generated file (its <file>.json sidecar is read, or the record embedded in a PNG or SVG) or the sidecar itself"),
+  overrides: z.record(z.string(), z.unknown()).optional().describe("Arguments to change, e.g. {\"seed\": 7} or {\"prompt\": \"...\"}; everything else is sent exactly as recorded"),
+  output_path: z.string().optional().describe("Where to save the new output. Defaults to the recorded output_path; the existing file is kept or replaced per the overwrite policy"),
+};
+
+const GeminiModelsSchema = {
+  capability: z.enum(["text", "image", "imagen", "edit", "upscale"]).optional().describe("Only list models with this capability"),
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  'png': 'image/png', 'jpg': 'image/jpeg', 'jpeg': 'image/jpeg',
+  'gif': 'image/gif', 'webp': 'image/webp', 'bmp': 'image/bmp',
+  'heic': 'image/heic', 'heif': 'image/heif',
+  'pdf': 'application/pdf',
+  'mp3': 'audio/mpeg', 'wav': 'audio/wav', 'flac': 'audio/flac', 'ogg': 'audio/ogg',
+  'aac': 'audio/aac', 'm4a': 'audio/mp4', 'aiff': 'audio/aiff',
+  'mp4': 'video/mp4', 'mov': 'video/quicktime', 'webm': 'video/webm', 'mpeg': 'video/mpeg',
+  'mpg': 'video/mpeg', 'avi': 'video/x-msvideo', 'wmv': 'video/x-ms-wmv', '3gp': 'video/3gpp',
+  'txt': 'text/plain', 'md': 'text/plain', 'csv': 'text/csv', 'html': 'text/html', 'htm': 'text/html',
+  'xml': 'text/xml', 'css': 'text/css', 'json': 'text/plain', 'js': 'text/plain', 'ts': 'text/plain',
+  'py': 'text/plain', 'rtf': 'text/rtf', 'svg': 'text/plain', 'yaml': 'text/plain', 'yml': 'text/plain',
+};
+
+// Identify common formats from their leading bytes
+function sniffMimeType(head: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...head.subarray(start, end));
+  const startsWith = (...bytes: number[]) => bytes.every((b, i) => head[i] === b);
+
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return 'image/png';
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(0, 4) === 'RIFF') {
+    const kind = ascii(8, 12);
+    if (kind === 'WEBP') return 'image/webp';
+    if (kind === 'WAVE') return 'audio/wav';
+    if (kind === 'AVI ') return 'video/x-msvideo';
+  }
+  if (ascii(0, 4) === 'FORM' && ascii(8, 12) === 'AIFF') return 'audio/aiff';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe6) === 0xe2)) return 'audio/mpeg';
+  if (head[0] === 0xff && (head[1] & 0xf6) === 0xf0) return 'audio/aac';
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) return 'video/webm';
+  if (startsWith(0x00, 0x00, 0x01, 0xba) || startsWith(0x00, 0x00, 0x01, 0xb3)) return 'video/mpeg';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand.startsWith('M4A')) return 'audio/mp4';
+    if (brand.startsWith('3gp')) return 'video/3gpp';
+    if (['heic', 'heix', 'heim', 'heis'].includes(brand)) return 'image/heic';
+    if (['mif1', 'msf1'].includes(brand)) return 'image/heif';
+    return 'video/mp4';
+  }
+  return undefined;
+}
+
+// Magic bytes win over the extension; the extension is the fallback for text and unknown formats
+function getMimeType(path: string, head: Uint8Array): string {
+  const sniffed = sniffMimeType(head);
+  if (sniffed) return sniffed;
   const ext = path.toLowerCase().split('.').pop();
-  const types: Record<string, string> = {
-    'png': 'image/png', 'jpg': 'image/jpeg', 'jpeg': 'image/jpeg',
-    'gif': 'image/gif', 'webp': 'image/webp', 'bmp': 'image/bmp'
+  return EXTENSION_MIME_TYPES[ext || ''] || (head.includes(0) ? 'application/octet-stream' : 'text/plain');
+}
+
+async function loadAttachments(paths: string[] = []): Promise<Attachment[]> {
+  return Promise.all(paths.map(async (path) => {
+    const absPath = await allowedInputPath(path);
+    const file = await open(absPath, 'r');
+    try {
+      const { size } = await file.stat();
+      const head = new Uint8Array(512);
+      const { bytesRead } = await file.read(head, 0, head.length, 0);
+      return { path: absPath, mimeType: getMimeType(absPath, head.subarray(0, bytesRead)), size };
+    } finally {
+      await file.close();
+    }
+  }));
+}
+
+// Read an input image (inside the allowed directories), keeping the raw bytes for local processing
+async function loadImage(path: string): Promise<{ buffer: Buffer; image: Image }> {
+  const absPath = await allowedInputPath(path);
+  const buffer = await readFile(absPath);
+  return { buffer, image: { imageBytes: buffer.toString('base64'), mimeType: getMimeType(absPath, buffer) } };
+}
+
+// input_image may be one path or a list of paths / {path, role} entries
+async function loadReferenceImages(input?: z.infer<typeof ReferenceImagesSchema>): Promise<ReferenceImage[]> {
+  if (!input) return [];
+  const entries = (Array.isArray(input) ? input : [input]).map(e => typeof e === "string" ? { path: e } : e);
+  return Promise.all(entries.map(async (e) => ({
+    image: (await loadImage(e.path)).image,
+    role: "role" in e ? e.role : undefined,
+    name: basename(e.path),
+  })));
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Cancel the upstream call with the request, and stream partial output as progress
+// notifications when the client supplied a progress token
+function streamOptions(extra: ToolExtra): StreamOptions {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra.signal };
+
+  let progress = 0;
+  return {
+    signal: extra.signal,
+    onProgress: (update) => {
+      const message = update.kind === 'thought' ? `[thinking] ${update.text}` : update.text;
+      extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress: ++progress, message } })
+        .catch((error) => console.error("Failed to send progress notification:", error));
+    },
   };
-  return types[ext || ''] || 'image/png';
 }
 
-const SETUP_INSTRUCTIONS = `
-Gemini MCP Server - Setup Required
+// Generation parameters the call leaves out, filled in from gemcp.config.json
+function textDefaults(args: { thinking_level?: 'low' | 'high'; thinking_budget?: number; max_tokens?: number; temperature?: number; top_p?: number }): Pick<TextOptions, 'thinkingLevel' | 'maxTokens' | 'temperature' | 'topP'> {
+  const defaults = GENERATION_DEFAULTS.text;
+  return {
+    // An explicit budget replaces the configured level rather than clashing with it
+    thinkingLevel: args.thinking_level ?? (args.thinking_budget === undefined ? defaults.thinkingLevel : undefined),
+    maxTokens: args.max_tokens ?? defaults.maxTokens,
+    temperature: args.temperature ?? defaults.temperature,
+    topP: args.top_p ?? defaults.topP,
+  };
+}
 
-GEMINI_API_KEY environment variable is not set.
+// The generation arguments gemini_generate and gemini_messages share
+function textOptions(args: Omit<z.infer<z.ZodObject<typeof GeminiGenerateSchema>>, "prompt" | "attachments">): TextOptions {
+  return {
+    model: args.model, instructions: args.instructions, includeThoughts: args.include_thoughts,
+    ...textDefaults(args),
+    thinkingBudget: args.thinking_budget, presencePenalty: args.presence_penalty, frequencyPenalty: args.frequency_penalty,
+    seed: args.seed, stopSequences: args.stop_sequences, candidateCount: args.candidate_count, safetySettings: args.safety_settings,
+    responseSchema: args.response_schema,
+    grounding: args.grounding, urlContext: args.url_context, codeExecution: args.code_execution,
+    cache: args.cache,
+  };
+}
 
-Setup Steps:
+// Categories rated medium or high, or blocked, for the text result
+function flaggedRatings(ratings?: SafetyRatingInfo[]): string | undefined {
+  const flagged = ratings?.filter(r => r.blocked || r.probability === "MEDIUM" || r.probability === "HIGH");
+  return flagged?.length ? flagged.map(r => `${r.category} (${r.probability}${r.blocked ? ", blocked" : ""})`).join(", ") : undefined;
+}
+
+function formatCandidate(candidate: CandidateResult): string {
+  const flagged = flaggedRatings(candidate.safetyRatings);
+  const header = `**Candidate ${candidate.index + 1}** (${candidate.finishReason || "unknown finish reason"}${flagged ? `; flagged: ${flagged}` : ""})`;
+  return candidate.reasoning
+    ? `${header}\n**Reasoning:**\n${candidate.reasoning}\n\n**Response:**\n${candidate.content}`
+    : `${header}\n${candidate.content}`;
+}
+
+function formatUsage(usage: Usage): string {
+  if (usage.images !== undefined) return `${usage.images} image${usage.images === 1 ? "" : "s"}`;
+  return `${usage.promptTokens} prompt, ${usage.completionTokens} completion, ${usage.totalTokens} total`;
+}
+
+function textToolResult(result: GeminiResult) {
+  let text: string;
+  if (result.data !== undefined) {
+    const body = JSON.stringify(result.data, null, 2);
+    text = result.reasoning ? `**Reasoning:**\n${result.reasoning}\n\n**Response:**\n${body}` : body;
+  } else if (result.candidates) {
+    text = result.candidates.map(formatCandidate).join("\n\n");
+  } else {
+    text = result.reasoning ? `**Reasoning:**\n${result.reasoning}\n\n**Response:**\n${result.content}` : result.content;
+  }
+
+  result.codeExecutions?.forEach((exec, i) => {
+    const lang = exec.language && exec.language !== 'LANGUAGE_UNSPECIFIED' ? exec.language.toLowerCase() : '';
+    if (exec.code) text += `\n\n**Executed Code ${i + 1}:**\n\`\`\`${lang}\n${exec.code}\n\`\`\``;
+    if (exec.outcome !== undefined || exec.output) {
+      text += `\n\n**Code Output ${i + 1}** (${exec.outcome || 'unknown outcome'}):\n\`\`\`\n${(exec.output || '').trimEnd()}\n\`\`\``;
+    }
+  });
+
+  if (result.functionCalls) {
+    const calls = result.functionCalls.map((call, i) => `${i + 1}. ${call.name}(${JSON.stringify(call.args)})${call.id ? ` [id: ${call.id}]` : ""}`);
+    text += `${text ? "\n\n" : ""}**Function calls:**\n${calls.join("\n")}\n\nRun them, then call gemini_messages again with this turn appended as an assistant message carrying these function_calls (from the structured result, thought_signature included) and one function_response message per call.`;
+  }
+
+  if (result.citations) {
+    text += `\n\n**Sources:**\n${result.citations.map(c => `${c.index}. ${c.title ? `${c.title} - ` : ''}${c.uri}`).join('\n')}`;
+  }
+  if (result.searchQueries) text += `\n\n**Search queries:** ${result.searchQueries.join(', ')}`;
+  if (result.urlsRetrieved) {
+    text += `\n\n**URLs read:**\n${result.urlsRetrieved.map(u => `- ${u.url}${u.status ? ` (${u.status})` : ''}`).join('\n')}`;
+  }
+
+  // A complete single answer needs no note; anything else is worth knowing about
+  if (!result.candidates && result.finishReason && result.finishReason !== "STOP") {
+    text += `\n\n**Finish reason:** ${result.finishReason}${result.finishReason === "MAX_TOKENS" ? " - the answer was cut off; raise max_tokens for the rest" : ""}`;
+  }
+  const flagged = !result.candidates && flaggedRatings(result.safetyRatings);
+  if (flagged) text += `\n\n**Safety:** ${flagged}`;
+
+  if (result.usage) text += `\n\n**Usage:** ${formatUsage(result.usage)}`;
+  if (result.cached) text += `\n\n${CACHE_HIT_NOTE}`;
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent: {
+      content: result.content, reasoning: result.reasoning, data: result.data,
+      citations: result.citations, code_executions: result.codeExecutions,
+      function_calls: result.functionCalls?.map(call => ({ id: call.id, name: call.name, args: call.args, thought_signature: call.thoughtSignature })),
+      finish_reason: result.finishReason, safety_ratings: result.safetyRatings,
+      candidates: result.candidates?.map(c => ({
+        index: c.index, content: c.content, reasoning: c.reasoning, finish_reason: c.finishReason, safety_ratings: c.safetyRatings,
+      })),
+      usage: result.usage, cached: result.cached,
+    },
+  };
+}
+
+// A config value for the gemini_config table: JSON, shortened, with table pipes escaped
+function formatConfigValue(value: unknown): string {
+  if (value === undefined) return "(not set)";
+  const text = JSON.stringify(value);
+  return (text.length > 80 ? `${text.slice(0, 77)}...` : text).replace(/\|/g, "\\|");
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+const CACHE_HIT_NOTE = "**Cache:** hit - served from the local response cache, no tokens spent";
+
+// Enforce budgets before an API-backed call and log its usage afterwards. Cache hits cost nothing and are not logged.
+// A failed call is still charged for the requests it made before failing.
+async function metered<T extends { model: string; usage?: Usage; cached?: boolean }>(
+  tool: string,
+  extra: ToolExtra,
+  call: () => Promise<T>
+): Promise<T> {
+  const session = extra.sessionId ?? PROCESS_SESSION_ID;
+  await assertWithinBudget(session);
+  const record = (model: string, usage?: Usage) => recordUsage({ tool, model, session, usage, images: usage?.images ?? 0 })
+    .catch((error) => console.error("Failed to record usage:", error));
+
+  let result: T;
+  try {
+    result = await call();
+  } catch (error) {
+    if (error instanceof GeminiError && error.usage && error.model) await record(error.model, error.usage);
+    throw error;
+  }
+  if (!result.cached) await record(result.model, result.usage);
+  return result;
+}
+
+async function sendSessionMessage(
+  tool: string,
+  session: Session,
+  message: string,
+  extra: ToolExtra,
+  options: { attachments?: string[]; responseSchema?: Record<string, unknown> } = {}
+) {
+  const attachments = await loadAttachments(options.attachments);
+  const result = await metered(tool, extra, () => callGeminiSession(session.contents, message, {
+    ...session.settings,
+    attachments,
+    responseSchema: options.responseSchema,
+    ...streamOptions(extra),
+  }));
+  const updated = await appendTurns(session, result.turns);
+  const toolResult = textToolResult(result);
+  toolResult.content.push({ type: "text", text: `**Session:** ${updated.id} (${updated.contents.length} turns)` });
+  return toolResult;
+}
+
+// Run one image-session turn on top of a version (or from scratch) and save the result as the next version
+async function imageSessionTurn(
+  tool: string,
+  session: ImageSession,
+  prompt: string,
+  extra: ToolExtra,
+  options: { parent?: number; inputImage?: z.infer<typeof ReferenceImagesSchema>; imageSize?: '1K' | '2K' | '4K'; aspectRatio?: string; cache?: CacheOverride } = {}
+) {
+  const history = await historyFor(session, options.parent);
+  const inputImages = await loadReferenceImages(options.inputImage);
+  const result = await metered(tool, extra, () => callGeminiImageSession(history, prompt, {
+    model: session.settings.model,
+    imageSize: options.imageSize ?? session.settings.imageSize,
+    aspectRatio: options.aspectRatio ?? session.settings.aspectRatio,
+    inputImages,
+    cache: options.cache,
+    ...streamOptions(extra),
+  }));
+
+  const provenance = await provenanceFor(tool, { session_id: session.id, prompt, from_version: options.parent, input_image: options.inputImage }, result);
+  const { version } = await addVersion(session, { parent: options.parent, prompt, text: result.text, turns: result.turns }, (number) =>
+    Promise.all(result.images.map((img, i) =>
+      writeAsset(versionPath(session, number, img.mimeType, i, result.images.length), Buffer.from(img.data, "base64"), provenance))));
+  const paths = version.paths;
+
+  const content: ToolContent[] = [];
+  if (result.text) content.push({ type: "text", text: result.text });
+  content.push({ type: "text", text: paths.length > 0 ? paths.map(p => `Saved: ${p}`).join("\n") : "The model returned no image for this turn." });
+  content.push({ type: "text", text: `**Image session:** ${session.id} | v${version.version}${version.parent ? ` (from v${version.parent})` : ""}` });
+  if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+  if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
+  return { content };
+}
+
+function formatSessionTurn(turn: Content, index: number, includeThoughts: boolean): string {
+  const pieces: string[] = [];
+  for (const part of turn.parts || []) {
+    if (part.thought) {
+      if (includeThoughts && part.text) pieces.push(`[thought] ${part.text}`);
+    } else if (part.text) {
+      pieces.push(part.text);
+    } else if (part.inlineData) {
+      pieces.push(`[attachment: ${part.inlineData.mimeType}]`);
+    } else if (part.fileData) {
+      pieces.push(`[file: ${part.fileData.mimeType} ${part.fileData.fileUri}]`);
+    } else if (part.executableCode) {
+      pieces.push(`[executed code]\n${part.executableCode.code}`);
+    } else if (part.codeExecutionResult) {
+      pieces.push(`[code output]\n${part.codeExecutionResult.output || ''}`);
+    }
+  }
+  return `#${index + 1} ${turn.role === 'model' ? 'assistant' : 'user'}:\n${pieces.join('\n')}`;
+}
+
+function usageTable(title: string, column: string, entries: LedgerEntry[], keyOf: (e: LedgerEntry) => string): string {
+  const groups = new Map<string, LedgerEntry[]>();
+  for (const e of entries) groups.set(keyOf(e), [...(groups.get(keyOf(e)) || []), e]);
+  const rows = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, list]) => {
+      const sum = (field: 'promptTokens' | 'completionTokens' | 'thoughtTokens' | 'images') => list.reduce((t, e) => t + e[field], 0);
+      return `| ${key} | ${list.length} | ${sum('promptTokens')} | ${sum('completionTokens')} | ${sum('thoughtTokens')} | ${sum('images')} | $${sumCost(list).toFixed(4)} |`;
+    });
+  return `**${title}**\n| ${column} | Calls | Prompt | Completion | Thought | Images | Cost |\n|---|---|---|---|---|---|---|\n${rows.join('\n')}`;
+}
+
+type ToolContent = CallToolResult["content"][number];
+
+// Save generated images to output_path (numbered when there are several), or to a timestamped
+// file in the output directory when none was given - in which case they are also returned inline
+async function saveImages(
+  images: Array<{ mimeType: string; data: string }>,
+  args: { output_path?: string; overwrite?: OverwritePolicy; embed_metadata?: boolean },
+  provenance: Provenance
+): Promise<ToolContent[]> {
+  const base = (args.output_path ?? defaultOutputPath(provenance.tool)).replace(/\.[^./\\]+$/, '');
+  const content: ToolContent[] = [];
+  for (const [i, img] of images.entries()) {
+    const ext = img.mimeType === 'image/png' ? '.png' : img.mimeType === 'image/webp' ? '.webp' : '.jpg';
+    const savedPath = await writeAsset(`${base}${images.length > 1 ? `_${i + 1}` : ''}${ext}`, Buffer.from(img.data, "base64"), provenance, {
+      overwrite: args.overwrite, embed: args.embed_metadata,
+    });
+    content.push({ type: "text", text: `Saved: ${savedPath}` });
+    if (!args.output_path) content.push({ type: "image", data: img.data, mimeType: img.mimeType });
+  }
+  return content;
+}
+
+// Files a call read its images or SVG from, for the provenance record
+function inputPathsOf(args: Record<string, unknown>): string[] {
+  const paths: string[] = [];
+  const inputImage = args.input_image;
+  for (const entry of Array.isArray(inputImage) ? inputImage : [inputImage]) {
+    if (typeof entry === "string") paths.push(entry);
+    else if (entry && typeof entry === "object" && typeof entry.path === "string") paths.push(entry.path);
+  }
+  for (const key of ["mask_image", "input_svg"]) {
+    if (typeof args[key] === "string") paths.push(args[key]);
+  }
+  return paths;
+}
+
+// What produced the files a call saves, for their sidecars and gemini_regenerate
+async function provenanceFor(tool: string, args: object, result: { model: string; usage?: Usage }): Promise<Provenance> {
+  const recorded = { ...args } as Record<string, unknown>;
+  return {
+    generator: `gemcp ${pkg.version}`,
+    tool,
+    model: result.model,
+    args: recorded,
+    inputs: await hashInputs(inputPathsOf(recorded)),
+    usage: result.usage,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+interface ReplayableTool {
+  schema: z.ZodObject<z.ZodRawShape>;
+  run: (args: Record<string, unknown>, extra: ToolExtra) => Promise<{ content: ToolContent[]; isError?: boolean }>;
+}
+
+// Handlers of the tools batch items may call, registered alongside the tools themselves
+const batchTools = new Map<string, ReplayableTool>();
+
+// Handlers gemini_regenerate replays, keyed by the tool a provenance record names
+const regenerableTools = new Map<string, ReplayableTool>();
+
+function batchable<S extends z.ZodRawShape, R extends { content: ToolContent[]; isError?: boolean }>(
+  name: (typeof BATCH_TOOLS)[number],
+  schema: S,
+  handler: (args: z.infer<z.ZodObject<S>>, extra: ToolExtra) => Promise<R>
+) {
+  if (toolAllowed(name)) batchTools.set(name, { schema: z.object(schema), run: handler as (args: Record<string, unknown>, extra: ToolExtra) => Promise<R> });
+  // gemini_generate saves no files, so it leaves nothing to regenerate from
+  return name === "gemini_generate" ? handler : regenerable(name, schema, handler);
+}
+
+function regenerable<S extends z.ZodRawShape, R extends { content: ToolContent[]; isError?: boolean }>(
+  name: string,
+  schema: S,
+  handler: (args: z.infer<z.ZodObject<S>>, extra: ToolExtra) => Promise<R>
+) {
+  if (toolAllowed(name)) regenerableTools.set(name, { schema: z.object(schema), run: handler as (args: Record<string, unknown>, extra: ToolExtra) => Promise<R> });
+  return handler;
+}
+
+// Batch items run outside any request: no progress notifications, and usage is charged to the submitting session
+function batchExtra(batch: Batch, item: BatchItem, signal: AbortSignal): ToolExtra {
+  return {
+    signal,
+    sessionId: batch.session,
+    requestId: `${batch.id}:${item.index}`,
+    sendNotification: async () => {},
+    sendRequest: async () => { throw new Error("Batch items cannot make client requests"); },
+  };
+}
+
+// Run one batch item through the tool's own handler, collecting its text and the files it saved
+async function runBatchItem(item: BatchItem, batch: Batch, signal: AbortSignal): Promise<ItemResult> {
+  const tool = batchTools.get(item.tool);
+  if (!tool) throw new Error(`Tool "${item.tool}" cannot be batched (batchable: ${BATCH_TOOLS.join(", ")})`);
+  const result = await tool.run(tool.schema.parse(item.args), batchExtra(batch, item, signal));
+
+  const texts: string[] = [];
+  const files: string[] = [];
+  for (const part of result.content) {
+    if (part.type === "text" && part.text) {
+      texts.push(part.text);
+      const saved = /^Saved(?: SVG)?: (.+)$/.exec(part.text);
+      if (saved) files.push(saved[1]);
+    }
+  }
+  if (result.isError) throw new Error(texts.join("\n") || "The tool reported an error");
+  return { output: texts.join("\n\n"), files: files.length > 0 ? files : undefined };
+}
+
+function fillTemplate(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") return value.replace(/\{(path|file|name|dir|index)\}/g, (_, key: string) => vars[key]);
+  if (Array.isArray(value)) return value.map(v => fillTemplate(v, vars));
+  if (value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillTemplate(v, vars)]));
+  return value;
+}
+
+// The leading directories of a glob pattern, up to the first segment with a wildcard
+function globBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const wildcard = segments.findIndex(segment => /[*?[\]{}!]/.test(segment));
+  return resolve(segments.slice(0, wildcard === -1 ? segments.length - 1 : wildcard).join("/") || (isAbsolute(pattern) ? "/" : "."));
+}
+
+// Expand a job spec into items, validating every item's arguments up front
+async function expandJobSpec(args: z.infer<z.ZodObject<typeof GeminiBatchSubmitSchema>>): Promise<BatchItem[]> {
+  if (Boolean(args.jobs_file) === Boolean(args.glob)) throw new Error("Pass exactly one of jobs_file or glob");
+
+  const specs: Array<{ tool?: string; args: Record<string, unknown>; source: string }> = [];
+  if (args.jobs_file) {
+    const absPath = await allowedInputPath(args.jobs_file);
+    const lines = (await readFile(absPath, "utf-8")).split("\n");
+    for (const [i, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`${absPath}:${i + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error(`${absPath}:${i + 1} must be a JSON object`);
+      const entry = parsed as Record<string, unknown>;
+      const wrapped = entry.args && typeof entry.args === "object" && !Array.isArray(entry.args);
+      specs.push({
+        tool: wrapped && typeof entry.tool === "string" ? entry.tool : args.tool,
+        args: wrapped ? entry.args as Record<string, unknown> : entry,
+        source: `${absPath}:${i + 1}`,
+      });
+    }
+  } else {
+    if (!args.tool) throw new Error("tool is required with glob");
+    // Absolute patterns are matched from the filesystem root
+    const pattern = args.glob!;
+    const absolute = isAbsolute(pattern);
+    // The directory the pattern starts in must be allowed, so a glob cannot list files elsewhere
+    await allowedInputPath(globBase(pattern));
+    const matches: string[] = [];
+    for await (const match of new Bun.Glob(absolute ? pattern.slice(1) : pattern).scan({ cwd: absolute ? "/" : process.cwd(), absolute: true, onlyFiles: true })) {
+      // Stop scanning as soon as the pattern is known to be too broad
+      if (matches.length === BATCH_LIMITS.maxItems) {
+        throw new Error(`${pattern} matches more than ${BATCH_LIMITS.maxItems} files, the most one batch may hold (GEMCP_BATCH_MAX_ITEMS). Narrow the pattern or split the batch.`);
+      }
+      matches.push(match);
+    }
+    matches.sort();
+    matches.forEach((path, i) => {
+      const file = basename(path);
+      const vars = { path, file, name: file.replace(/\.[^.]+$/, ""), dir: dirname(path), index: String(i) };
+      specs.push({ tool: args.tool, args: fillTemplate(args.args || {}, vars) as Record<string, unknown>, source: path });
+    });
+  }
+  if (specs.length === 0) throw new Error(args.glob ? `No files match ${args.glob}` : `${args.jobs_file} contains no jobs`);
+  if (specs.length > BATCH_LIMITS.maxItems) {
+    throw new Error(`${args.jobs_file} has ${specs.length} jobs, more than the ${BATCH_LIMITS.maxItems} one batch may hold (GEMCP_BATCH_MAX_ITEMS). Split it into several batches.`);
+  }
+
+  const problems: string[] = [];
+  for (const spec of specs) {
+    const tool = spec.tool && batchTools.get(spec.tool);
+    if (!tool) {
+      problems.push(`${spec.source}: ${spec.tool ? `"${spec.tool}" cannot be batched` : "no tool given"} (batchable: ${BATCH_TOOLS.join(", ")})`);
+      continue;
+    }
+    const parsed = tool.schema.safeParse(spec.args);
+    if (!parsed.success) problems.push(`${spec.source}: ${parsed.error.issues.map(issue => `${issue.path.join(".") || "args"}: ${issue.message}`).join("; ")}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid job spec (${problems.length} item(s)):\n${problems.slice(0, 20).join("\n")}${problems.length > 20 ? `\n... and ${problems.length - 20} more` : ""}`);
+  }
+  return specs.map((spec, index) => ({ index, tool: spec.tool!, args: spec.args, source: spec.source, status: "pending" }));
+}
+
+// Overlapping polls of one batch share a single refresh, so its results are only recorded once
+const refreshing = new Map<string, Promise<Batch>>();
+
+// Load a batch, polling its Batch API job first if it has one
+function loadRefreshedBatch(id: string, signal?: AbortSignal): Promise<Batch> {
+  let refresh = refreshing.get(id);
+  if (!refresh) {
+    refresh = loadBatch(id)
+      .then(async (batch) => { await refreshRemoteBatch(batch, signal); return batch; })
+      .finally(() => refreshing.delete(id));
+    refreshing.set(id, refresh);
+  }
+  return refresh;
+}
+
+// Batch API jobs are polled when their status is checked; finished results are copied onto the items.
+// Usage is recorded only after the completed batch is saved, so a later poll never charges it again.
+async function refreshRemoteBatch(batch: Batch, signal?: AbortSignal): Promise<void> {
+  if (batch.mode !== "batch_api" || batch.status !== "running" || !batch.remote) return;
+  const job = await getTextBatch(batch.remote.name, batch.remote.model, signal);
+  batch.remote.state = job.state;
+  const usages: Array<{ model: string; usage?: Usage }> = [];
+  if (job.results) {
+    const finishedAt = new Date().toISOString();
+    for (const item of batch.items) {
+      const result = job.results[item.index];
+      item.finishedAt = finishedAt;
+      if (!result || "error" in result) {
+        Object.assign(item, { status: "failed", error: result?.error || job.error || `Batch job ended in ${job.state}` });
+        continue;
+      }
+      if (item.args.response_schema) {
+        try {
+          result.data = JSON.parse(stripCodeFences(result.content, ["json"]));
+        } catch {
+          Object.assign(item, { status: "failed", error: `The response is not valid JSON:\n${result.content}` });
+          continue;
+        }
+      }
+      Object.assign(item, { status: "succeeded", output: textToolResult(result).content[0].text });
+      usages.push({ model: result.model, usage: result.usage });
+    }
+    batch.status = "completed";
+  }
+  await saveBatch(batch);
+  for (const { model, usage } of usages) {
+    await recordUsage({ tool: "gemini_generate", model, session: batch.session, usage, images: 0 })
+      .catch((error) => console.error("Failed to record usage:", error));
+  }
+}
+
+function formatBatch(batch: Batch): string {
+  const counts = batchCounts(batch);
+  const tools = [...new Set(batch.items.map(i => i.tool))].join(", ");
+  let text = `**Batch ${batch.id}** - ${batch.status} (${batch.mode}, ${tools})\n`
+    + `Items: ${batch.items.length} | succeeded ${counts.succeeded}, failed ${counts.failed}, running ${counts.running}, pending ${counts.pending}\n`
+    + `Created: ${batch.createdAt} | Updated: ${batch.updatedAt}`;
+  if (batch.remote) text += `\nBatch API job: ${batch.remote.name} (${batch.remote.state})`;
+  return text;
+}
+
+const SETUP_INSTRUCTIONS = `
+Setup Steps - Gemini API (AI Studio):
 
 1. Get an API key from Google AI Studio:
    https://aistudio.google.com/apikey
@@ -111,251 +1040,780 @@ Setup Steps:
 Alternative - Add directly via Claude CLI:
    claude mcp add -s user gemini -e GEMINI_API_KEY=your-key -- bunx @bopen-io/gemcp
 
+Several keys: GEMINI_API_KEYS="key1,key2" - a call that hits one key's quota moves on to the next.
+
+Setup Steps - Vertex AI (needed in practice for gemini_edit and gemini_upscale):
+
+1. Enable the Vertex AI API in a Google Cloud project
+2. export GOOGLE_CLOUD_PROJECT="your-project-id"
+   export GOOGLE_CLOUD_LOCATION="us-central1"   (optional, this is the default)
+3. Credentials: run \`gcloud auth application-default login\`, or
+   export GOOGLE_APPLICATION_CREDENTIALS="/path/to/service-account.json"
+
+With both configured, gemini_edit and gemini_upscale use Vertex AI and everything else the Gemini API.
+Route roles explicitly with GEMCP_BACKEND or GEMCP_<ROLE>_BACKEND=gemini|vertex
+(roles: TEXT, SVG, SEGMENT, DETECT, VISION, IMAGE, IMAGEN, EDIT, UPSCALE).
+
 After setup, restart Claude Code to enable all Gemini tools:
 - gemini_generate: Text generation with thinking modes
-- gemini_messages: Conversation-based generation
+- gemini_messages: Conversation-based generation, with function calling to your own tools
 - gemini_image: Image generation with full control over format, size, aspect ratio
 - gemini_upscale: Upscale images 2x or 4x
 - gemini_edit: Edit images with inpainting/outpainting
+- gemini_svg: SVG generation
+- gemini_svg_icons: Consistent SVG icon sets with a manifest
+- gemini_segment: Image segmentation masks
+- gemini_detect: Object detection with bounding boxes
+- gemini_describe / gemini_ocr / gemini_compare: Image captions, text extraction and before/after diffs
+- gemini_regenerate: Re-run the request behind a generated file
+- gemini_batch_submit / gemini_batch_status / gemini_batch_results: Background batch jobs
+- gemini_models: List models and capabilities
+- gemini_session_*: Server-side conversation sessions
+- gemini_image_session_*: Iterative image editing with versions and branches
+- gemini_usage_report: Token usage and cost totals
+- gemini_cache: Inspect and clear the local response cache
+- gemini_config: Effective configuration and where each value came from
+
+Optional - per-project defaults in gemcp.config.json (working directory, then home directory):
+   models, generation parameters, brand style, output directories and a "tools" allow-list
+
+Optional - override default models (pass "model" per call to override once):
+   GEMINI_MODEL, GEMINI_SVG_MODEL, GEMINI_SEGMENT_MODEL, GEMINI_DETECT_MODEL, GEMINI_VISION_MODEL,
+   GEMINI_IMAGE_MODEL, GEMINI_IMAGEN_MODEL, GEMINI_EDIT_MODEL, GEMINI_UPSCALE_MODEL
+
+Optional - where files may be written and read (defaults: working directory, ~/.gemcp/output, suffix):
+   GEMCP_OUTPUT_ROOT, GEMCP_OUTPUT_DIR, GEMCP_OVERWRITE
+
+Optional - serve one shared instance over HTTP instead of stdio (bearer token required):
+   gemcp --http [--port 8787] [--host 127.0.0.1] with GEMCP_HTTP_TOKEN or GEMCP_HTTP_TOKEN_FILE
+
+Optional - batch limits (defaults: 500 items per batch, 3 running batches per session):
+   GEMCP_BATCH_MAX_ITEMS, GEMCP_BATCH_MAX_ACTIVE
+
+Optional - cache identical requests on disk (off by default; deterministic caches seed or temperature 0 calls):
+   GEMCP_CACHE=deterministic|all, GEMCP_CACHE_DIR, GEMCP_CACHE_TTL_HOURS, GEMCP_CACHE_MAX_MB
 `.trim();
 
-async function main() {
+// Names of every tool createServer registers, allowed or not
+const toolNames = new Set<string>();
+
+// One MCP server with every allowed tool registered. Over stdio there is one; over HTTP, one per session.
+function createServer(): McpServer {
   const server = new McpServer({ name: "gemini-server", version: pkg.version }, { capabilities: { tools: {} } });
 
   server.server.onerror = (error) => console.error("MCP Server Error:", error);
-  process.on("SIGINT", async () => { await server.close(); process.exit(0); });
 
-  if (!isConfigured) {
-    // Not configured - only show setup tool
-    server.registerTool("gemini_setup", {
-      description: "Get setup instructions for the Gemini MCP server. GEMINI_API_KEY is not configured.",
+  // Register a tool unless the gemcp.config.json allow-list leaves it out
+  function register<OutputArgs extends ZodRawShapeCompat | AnySchema, InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined>(
+    name: string,
+    config: Parameters<typeof server.registerTool<OutputArgs, InputArgs>>[1],
+    callback: ToolCallback<InputArgs>
+  ): void {
+    toolNames.add(name);
+    if (toolAllowed(name)) server.registerTool(name, config, callback);
+  }
+
+  const problems = configurationProblems();
+  if (problems.length > 0) {
+    // Not (fully) configured - the setup tool explains what is missing
+    register("gemini_setup", {
+      description: isConfigured
+        ? "Get setup instructions for the Gemini MCP server. Part of the backend configuration is missing, so some tools will fail."
+        : "Get setup instructions for the Gemini MCP server. Neither a Gemini API key nor a Vertex AI project is configured.",
     }, async () => {
-      return { content: [{ type: "text", text: SETUP_INSTRUCTIONS }] };
+      const title = isConfigured ? "Gemini MCP Server - Setup Incomplete" : "Gemini MCP Server - Setup Required";
+      return { content: [{ type: "text", text: `${title}\n\n${problems.map(p => `- ${p}`).join("\n")}\n\n${SETUP_INSTRUCTIONS}` }] };
     });
-  } else {
+  }
+
+  if (isConfigured) {
     // Configured - show all tools
-    server.registerTool("gemini_generate", {
-      description: "Generate text using Google Gemini API with a simple input prompt. Supports thinking/reasoning modes.",
-      inputSchema: GeminiGenerateSchema,
+    register("gemini_models", {
+      description: "List available Gemini/Imagen models with their capabilities, token limits and which tools use them by default.",
+      inputSchema: GeminiModelsSchema,
     }, async (args) => {
-      const result = await callGemini(apiKey, args.prompt, {
-        instructions: args.instructions, thinkingLevel: args.thinking_level,
-        includeThoughts: args.include_thoughts, maxTokens: args.max_tokens, temperature: args.temperature, topP: args.top_p,
+      const models = args.capability ? MODELS.filter(m => m.capabilities.includes(args.capability!)) : MODELS;
+      const lines = models.map(m => {
+        const defaultFor = (Object.keys(DEFAULT_MODELS) as ModelRole[]).filter(role => DEFAULT_MODELS[role] === m.id);
+        const limits = [
+          m.inputTokenLimit ? `${m.inputTokenLimit.toLocaleString("en-US")} input` : undefined,
+          m.outputTokenLimit ? `${m.outputTokenLimit.toLocaleString("en-US")} output` : undefined,
+        ].filter(Boolean).join(", ");
+        let line = `- **${m.id}** - ${m.description}\n  Capabilities: ${m.capabilities.join(", ")}`;
+        if (limits) line += ` | Token limits: ${limits}`;
+        if (defaultFor.length > 0) line += ` | Default for: ${defaultFor.join(", ")}`;
+        return line;
       });
-      let text = result.reasoning ? `**Reasoning:**\n${result.reasoning}\n\n**Response:**\n${result.content}` : result.content;
-      if (result.usage) text += `\n\n**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total`;
-      return { content: [{ type: "text", text }] };
+      return { content: [{ type: "text", text: lines.join("\n") }] };
     });
 
-    server.registerTool("gemini_messages", {
-      description: "Generate text using Gemini with structured conversation messages. Supports thinking/reasoning modes.",
+    register("gemini_config", {
+      description: "Show the effective configuration: default models, generation parameters, brand style, output directories and enabled tools, with where each value came from (gemcp.config.json, environment or built-in).",
+    }, async () => {
+      const files = CONFIG_FILES.length > 0
+        ? `**Config files** (first wins, environment variables override both):\n${CONFIG_FILES.map(f => `- ${f.path}`).join("\n")}`
+        : `**Config files:** none found at ${CONFIG_SEARCH_PATHS.join(" or ")}`;
+      const table = [
+        "| Setting | Value | Source |",
+        "|---|---|---|",
+        ...effectiveConfig().map(([key, { value, source }]) => `| ${key} | ${formatConfigValue(value)} | ${source} |`),
+      ].join("\n");
+      const enabled = [...toolNames].filter(toolAllowed);
+      const tools = `**Tools:** ${enabled.length} of ${toolNames.size} enabled${enabled.length < toolNames.size ? `; disabled: ${[...toolNames].filter(name => !toolAllowed(name)).join(", ")}` : ""}`;
+      return { content: [{ type: "text", text: [files, table, tools].join("\n\n") }] };
+    });
+
+    register("gemini_generate", {
+      description: "Generate text using Google Gemini API with a simple input prompt. Supports thinking/reasoning modes.",
+      inputSchema: GeminiGenerateSchema,
+      outputSchema: GeminiTextOutputSchema,
+    }, batchable("gemini_generate", GeminiGenerateSchema, async (args, extra) => {
+      const attachments = await loadAttachments(args.attachments);
+      const result = await metered("gemini_generate", extra, () => callGemini(args.prompt, {
+        attachments,
+        ...textOptions(args),
+        ...streamOptions(extra),
+      }));
+      return textToolResult(result);
+    }));
+
+    register("gemini_messages", {
+      description: "Generate text using Gemini with structured conversation messages. Supports thinking/reasoning modes, and function calling: declare tools, run the function_calls Gemini returns, and send their results back as function_response messages.",
       inputSchema: GeminiMessagesSchema,
-    }, async (args) => {
-      const result = await callGeminiWithMessages(apiKey, args.messages, {
-        instructions: args.instructions, thinkingLevel: args.thinking_level,
-        includeThoughts: args.include_thoughts, maxTokens: args.max_tokens, temperature: args.temperature, topP: args.top_p,
+      outputSchema: GeminiTextOutputSchema,
+    }, async (args, extra) => {
+      const messages = await Promise.all(args.messages.map(async (m) => ({
+        role: m.role, content: m.content, name: m.name, id: m.id, response: m.response,
+        attachments: await loadAttachments(m.attachments),
+        functionCalls: m.function_calls?.map(c => ({ id: c.id, name: c.name, args: c.args, thoughtSignature: c.thought_signature })),
+      })));
+      const attachments = await loadAttachments(args.attachments);
+      const result = await metered("gemini_messages", extra, () => callGeminiWithMessages(messages, {
+        attachments,
+        ...textOptions(args),
+        functions: args.tools,
+        functionCalling: args.tool_choice,
+        ...streamOptions(extra),
+      }));
+      return textToolResult(result);
+    });
+
+    register("gemini_session_start", {
+      description: "Start a server-side Gemini conversation. History (including thought signatures) is stored locally and survives restarts, so later turns only send the new message via gemini_session_send.",
+      inputSchema: GeminiSessionStartSchema,
+    }, async (args, extra) => {
+      const session = await createSession({
+        model: resolveModel('text', args.model), instructions: args.instructions, includeThoughts: args.include_thoughts,
+        ...textDefaults(args),
+        grounding: args.grounding, urlContext: args.url_context, codeExecution: args.code_execution,
       });
-      let text = result.reasoning ? `**Reasoning:**\n${result.reasoning}\n\n**Response:**\n${result.content}` : result.content;
-      if (result.usage) text += `\n\n**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total`;
+      if (args.message) return sendSessionMessage("gemini_session_start", session, args.message, extra, { attachments: args.attachments });
+      if (args.attachments?.length) throw new Error("attachments require a message");
+      return { content: [{ type: "text", text: `Started session ${session.id} (model: ${session.settings.model})` }] };
+    });
+
+    register("gemini_session_send", {
+      description: "Send the next message in a gemini_session_start conversation. Only the new message is needed; history is kept server-side.",
+      inputSchema: GeminiSessionSendSchema,
+      outputSchema: GeminiTextOutputSchema,
+    }, async (args, extra) => {
+      const session = await loadSession(args.session_id);
+      return sendSessionMessage("gemini_session_send", session, args.message, extra, { attachments: args.attachments, responseSchema: args.response_schema });
+    });
+
+    register("gemini_session_history", {
+      description: "Show the numbered turns of a session, or list all sessions when session_id is omitted.",
+      inputSchema: GeminiSessionHistorySchema,
+    }, async (args) => {
+      if (!args.session_id) {
+        const sessions = await listSessions();
+        if (sessions.length === 0) return { content: [{ type: "text", text: "No sessions." }] };
+        const lines = sessions.map(s => `- ${s.id} | ${s.settings.model} | ${s.contents.length} turns | updated ${s.updatedAt}${s.parentId ? ` | forked from ${s.parentId}` : ''}`);
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+
+      const session = await loadSession(args.session_id);
+      let text = `**Session:** ${session.id} | model: ${session.settings.model} | created ${session.createdAt}`;
+      if (session.parentId) text += ` | forked from ${session.parentId}`;
+      if (session.settings.instructions) text += `\n**Instructions:** ${session.settings.instructions}`;
+      const turns = session.contents.map((turn, i) => formatSessionTurn(turn, i, args.include_thoughts ?? false));
+      text += `\n\n${turns.length > 0 ? turns.join("\n\n") : "(no turns yet)"}`;
       return { content: [{ type: "text", text }] };
     });
 
-    server.registerTool("gemini_image", {
-      description: "Generate or edit images using Gemini. Pass input_image path for editing, or just prompt for generation. Saves to output_path.",
-      inputSchema: GeminiImageSchema,
+    register("gemini_session_fork", {
+      description: "Copy a session into a new one, optionally truncated to its first N turns, to explore an alternative continuation.",
+      inputSchema: GeminiSessionForkSchema,
+    }, async (args) => {
+      const session = await forkSession(args.session_id, args.turns);
+      return { content: [{ type: "text", text: `Forked ${args.session_id} into ${session.id} (${session.contents.length} turns)` }] };
+    });
+
+    register("gemini_session_delete", {
+      description: "Delete a session and its stored history.",
+      inputSchema: GeminiSessionDeleteSchema,
+    }, async (args) => {
+      await deleteSession(args.session_id);
+      return { content: [{ type: "text", text: `Deleted session ${args.session_id}` }] };
+    });
+
+    register("gemini_usage_report", {
+      description: "Report recorded Gemini token usage and estimated cost, broken down by day, model and tool, plus budget status.",
+      inputSchema: GeminiUsageReportSchema,
+    }, async (args, extra) => {
+      const since = new Date(Date.now() - (args.days - 1) * 86400000).toISOString().slice(0, 10);
+      const entries = (await readLedger()).filter(e =>
+        dayOf(e.timestamp) >= since && (!args.model || e.model === args.model) && (!args.tool || e.tool === args.tool));
+
+      const sections = [`**Usage since ${since} (UTC):** ${entries.length} calls, $${sumCost(entries).toFixed(4)} estimated`];
+      if (entries.length > 0) {
+        sections.push(
+          usageTable("By day", "Day", entries, e => dayOf(e.timestamp)),
+          usageTable("By model", "Model", entries, e => e.model),
+          usageTable("By tool", "Tool", entries, e => e.tool),
+        );
+      }
+
+      const all = await readLedger();
+      const budgets: string[] = [];
+      if (BUDGETS.dailyUsd) {
+        const today = dayOf(new Date().toISOString());
+        budgets.push(`Daily: $${sumCost(all.filter(e => dayOf(e.timestamp) === today)).toFixed(4)} of $${BUDGETS.dailyUsd.toFixed(2)}`);
+      }
+      if (BUDGETS.sessionUsd) {
+        const session = extra.sessionId ?? PROCESS_SESSION_ID;
+        budgets.push(`This session: $${sumCost(all.filter(e => e.session === session)).toFixed(4)} of $${BUDGETS.sessionUsd.toFixed(2)}`);
+      }
+      if (budgets.length > 0) sections.push(`**Budgets:** ${budgets.join(' | ')}`);
+
+      return { content: [{ type: "text", text: sections.join("\n\n") }] };
+    });
+
+    register("gemini_cache", {
+      description: "Inspect or clear the local response cache: totals, recent entries, or remove entries by kind, model or expiry.",
+      inputSchema: GeminiCacheSchema,
     }, async (args) => {
-      let inputImage: Image | undefined;
-      if (args.input_image) {
-        const absInputPath = resolve(args.input_image);
-        const imageBuffer = await readFile(absInputPath);
-        inputImage = {
-          imageBytes: imageBuffer.toString('base64'),
-          mimeType: getMimeType(absInputPath)
-        };
+      const settings = `**Cache:** ${CACHE_SETTINGS.mode} (GEMCP_CACHE) in ${CACHE_SETTINGS.dir}, TTL ${CACHE_SETTINGS.ttlMs / 3_600_000}h, limit ${formatBytes(CACHE_SETTINGS.maxBytes)}`;
+      if (args.action === "clear") {
+        const { removed, bytes } = await clearCache({ kind: args.kind, model: args.model, expiredOnly: args.expired_only });
+        return { content: [{ type: "text", text: `Removed ${removed} cache entr${removed === 1 ? "y" : "ies"} (${formatBytes(bytes)})\n\n${settings}` }] };
       }
 
-      const result = await callGeminiImage(apiKey, args.prompt, {
+      const entries = (await listCacheEntries()).filter(e =>
+        (!args.kind || e.kind === args.kind) && (!args.model || e.model === args.model) && (!args.expired_only || e.expired));
+      const totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+      const sections = [settings, `${entries.length} entries, ${formatBytes(totalBytes)}`];
+
+      if (args.action === "list") {
+        if (entries.length > 0) {
+          sections.push(entries.slice(0, args.limit).map(e =>
+            `- ${e.key.slice(0, 12)} ${e.kind} ${e.model} | created ${e.createdAt} | last used ${e.lastUsedAt} | ${formatBytes(e.bytes)}${e.expired ? " | expired" : ""}`).join("\n"));
+        }
+      } else {
+        const groups = new Map<string, { count: number; bytes: number }>();
+        for (const e of entries) {
+          const group = groups.get(`${e.kind} / ${e.model}`) ?? { count: 0, bytes: 0 };
+          groups.set(`${e.kind} / ${e.model}`, { count: group.count + 1, bytes: group.bytes + e.bytes });
+        }
+        if (groups.size > 0) {
+          sections.push([
+            "| Kind / model | Entries | Size |",
+            "|---|---:|---:|",
+            ...[...groups.entries()].sort(([a], [b]) => a.localeCompare(b))
+              .map(([key, g]) => `| ${key} | ${g.count} | ${formatBytes(g.bytes)} |`),
+          ].join("\n"));
+        }
+        const expired = entries.filter(e => e.expired).length;
+        if (expired > 0) sections.push(`${expired} expired entr${expired === 1 ? "y" : "ies"}; clear them with action: "clear", expired_only: true`);
+      }
+      return { content: [{ type: "text", text: sections.join("\n\n") }] };
+    });
+
+    register("gemini_image", {
+      description: "Generate or edit images using Gemini, or generate with Imagen (engine: \"imagen\"). Pass input_image for editing or a list of reference images (with subject/style/background roles) for composition, or just prompt for generation. Saves to output_path. Options the chosen engine cannot apply are rejected.",
+      inputSchema: GeminiImageSchema,
+    }, batchable("gemini_image", GeminiImageSchema, async (args, extra) => {
+      await assertWritable([args.output_path]);
+      const inputImages = await loadReferenceImages(args.input_image);
+      const result = await metered("gemini_image", extra, () => callGeminiImage(args.prompt, {
+        engine: args.engine,
+        model: args.model,
         imageSize: args.image_size,
         aspectRatio: args.aspect_ratio,
         negativePrompt: args.negative_prompt,
         numberOfImages: args.num_images,
         guidanceScale: args.guidance_scale,
+        personGeneration: args.person_generation,
+        outputFormat: args.output_format,
         seed: args.seed,
-        inputImage
-      });
+        inputImages,
+        cache: args.cache,
+        ...streamOptions(extra)
+      }));
 
-      const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
+      const content: ToolContent[] = [];
       if (result.text) content.push({ type: "text", text: result.text });
 
-      for (let i = 0; i < result.images.length; i++) {
-        const img = result.images[i];
-        if (args.output_path) {
-          const ext = img.mimeType === 'image/png' ? '.png' : img.mimeType === 'image/webp' ? '.webp' : '.jpg';
-          let filePath = args.output_path.replace(/\.[^.]+$/, '') + ext;
-          if (result.images.length > 1) filePath = filePath.replace(/(\.[^.]+)$/, `_${i + 1}$1`);
-          const absPath = resolve(filePath);
-          await writeFile(absPath, Buffer.from(img.data, "base64"));
-          content.push({ type: "text", text: `Saved: ${absPath}` });
-        } else {
-          content.push({ type: "image", data: img.data, mimeType: img.mimeType });
-        }
-      }
+      content.push(...await saveImages(result.images, args, await provenanceFor("gemini_image", args, result)));
 
-      if (result.usage) content.push({ type: "text", text: `**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total` });
+      if (result.applied) {
+        content.push({ type: "text", text: `**Applied:** model=${result.model}, ${Object.entries(result.applied).map(([k, v]) => `${k}=${v}`).join(', ')}` });
+      }
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
       return { content };
+    }));
+
+    register("gemini_image_session_start", {
+      description: "Start an iterative image-editing session. The Gemini image conversation (including thought signatures) is kept server-side; each turn saves a new version (name_v1.png, name_v2.png, ...). Refine with gemini_image_session_edit.",
+      inputSchema: GeminiImageSessionStartSchema,
+    }, async (args, extra) => {
+      const outputBase = resolve(args.output_path).replace(/\.(png|jpe?g|webp)$/i, '');
+      await assertWritable([outputBase]);
+      const session = await createImageSession({
+        model: resolveModel('image', args.model),
+        imageSize: args.image_size,
+        aspectRatio: args.aspect_ratio,
+        outputBase,
+      });
+      return imageSessionTurn("gemini_image_session_start", session, args.prompt, extra, { inputImage: args.input_image, cache: args.cache });
+    });
+
+    register("gemini_image_session_edit", {
+      description: "Refine an image session with a follow-up prompt. Edits the latest version by default; pass from_version to branch from an earlier one. Only the new prompt is sent by the caller.",
+      inputSchema: GeminiImageSessionEditSchema,
+    }, async (args, extra) => {
+      const session = await loadImageSession(args.session_id);
+      const parent = args.from_version ?? session.versions.at(-1)?.version;
+      if (parent !== undefined) getVersion(session, parent);
+      return imageSessionTurn("gemini_image_session_edit", session, args.prompt, extra, {
+        parent, inputImage: args.input_image, imageSize: args.image_size, aspectRatio: args.aspect_ratio, cache: args.cache,
+      });
+    });
+
+    // A session turn is replayed on the version it was made from; a first turn is redone from scratch
+    for (const name of ["gemini_image_session_start", "gemini_image_session_edit"]) {
+      regenerable(name, GeminiImageSessionEditSchema, async (args, extra) => {
+        const session = await loadImageSession(args.session_id);
+        if (args.from_version !== undefined) getVersion(session, args.from_version);
+        return imageSessionTurn("gemini_image_session_edit", session, args.prompt, extra, {
+          parent: args.from_version, inputImage: args.input_image, imageSize: args.image_size, aspectRatio: args.aspect_ratio, cache: args.cache,
+        });
+      });
+    }
+
+    register("gemini_image_session_history", {
+      description: "List the versions of an image session with their prompts, files and branch parents, or list all image sessions when session_id is omitted.",
+      inputSchema: GeminiImageSessionHistorySchema,
+    }, async (args) => {
+      if (!args.session_id) {
+        const sessions = await listImageSessions();
+        if (sessions.length === 0) return { content: [{ type: "text", text: "No image sessions." }] };
+        const lines = sessions.map(s => `- ${s.id} | ${s.settings.model} | ${s.versions.length} versions | ${s.settings.outputBase} | updated ${s.updatedAt}`);
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+
+      const session = await loadImageSession(args.session_id);
+      let text = `**Image session:** ${session.id} | model: ${session.settings.model} | created ${session.createdAt}`;
+      const versions = session.versions.map(v =>
+        `**v${v.version}**${v.parent ? ` (from v${v.parent})` : ""} - ${v.createdAt}\nPrompt: ${v.prompt}\n${v.paths.length > 0 ? v.paths.join("\n") : "(no image)"}`);
+      text += `\n\n${versions.length > 0 ? versions.join("\n\n") : "(no versions yet)"}`;
+      return { content: [{ type: "text", text }] };
     });
 
-    server.registerTool("gemini_upscale", {
+    register("gemini_upscale", {
       description: "Upscale an image using Imagen. Supports 2x and 4x upscaling with format control.",
       inputSchema: GeminiUpscaleSchema,
-    }, async (args) => {
-      const absInputPath = resolve(args.input_image);
-      const imageBuffer = await readFile(absInputPath);
-      const inputImage: Image = {
-        imageBytes: imageBuffer.toString('base64'),
-        mimeType: getMimeType(absInputPath)
-      };
+    }, batchable("gemini_upscale", GeminiUpscaleSchema, async (args, extra) => {
+      await assertWritable([args.output_path]);
+      const { image: inputImage } = await loadImage(args.input_image);
 
-      const result = await callGeminiUpscale(apiKey, inputImage, {
+      const result = await metered("gemini_upscale", extra, () => callGeminiUpscale(inputImage, {
+        model: args.model,
         upscaleFactor: args.upscale_factor,
         outputFormat: args.output_format,
-        jpegQuality: args.jpeg_quality
-      });
+        jpegQuality: args.jpeg_quality,
+        signal: extra.signal
+      }));
 
-      const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
-      for (let i = 0; i < result.images.length; i++) {
-        const img = result.images[i];
-        if (args.output_path) {
-          const ext = img.mimeType === 'image/png' ? '.png' : img.mimeType === 'image/webp' ? '.webp' : '.jpg';
-          let filePath = args.output_path.replace(/\.[^.]+$/, '') + ext;
-          if (result.images.length > 1) filePath = filePath.replace(/(\.[^.]+)$/, `_${i + 1}$1`);
-          const absPath = resolve(filePath);
-          await writeFile(absPath, Buffer.from(img.data, "base64"));
-          content.push({ type: "text", text: `Saved: ${absPath}` });
-        } else {
-          content.push({ type: "image", data: img.data, mimeType: img.mimeType });
-        }
-      }
+      const content: ToolContent[] = [];
+      content.push(...await saveImages(result.images, args, await provenanceFor("gemini_upscale", args, result)));
       return { content };
-    });
+    }));
 
-    server.registerTool("gemini_edit", {
+    register("gemini_edit", {
       description: "Edit an image using Imagen with optional mask for inpainting/outpainting.",
       inputSchema: GeminiEditSchema,
-    }, async (args) => {
-      const absInputPath = resolve(args.input_image);
-      const imageBuffer = await readFile(absInputPath);
-      const inputImage: Image = {
-        imageBytes: imageBuffer.toString('base64'),
-        mimeType: getMimeType(absInputPath)
-      };
-
-      let maskImage: Image | undefined;
-      if (args.mask_image) {
-        const absMaskPath = resolve(args.mask_image);
-        const maskBuffer = await readFile(absMaskPath);
-        maskImage = {
-          imageBytes: maskBuffer.toString('base64'),
-          mimeType: getMimeType(absMaskPath)
-        };
-      }
+    }, batchable("gemini_edit", GeminiEditSchema, async (args, extra) => {
+      await assertWritable([args.output_path]);
+      const { image: inputImage } = await loadImage(args.input_image);
+      const maskImage = args.mask_image ? (await loadImage(args.mask_image)).image : undefined;
 
-      const result = await callGeminiEdit(apiKey, args.prompt, inputImage, maskImage, {
+      const result = await metered("gemini_edit", extra, () => callGeminiEdit(args.prompt, inputImage, maskImage, {
+        model: args.model,
         editMode: args.edit_mode,
         outputFormat: args.output_format,
         jpegQuality: args.jpeg_quality,
         negativePrompt: args.negative_prompt,
         numberOfImages: args.num_images,
         guidanceScale: args.guidance_scale,
-        seed: args.seed
-      });
+        seed: args.seed,
+        signal: extra.signal
+      }));
 
-      const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
+      const content: ToolContent[] = [];
       if (result.text) content.push({ type: "text", text: result.text });
 
-      for (let i = 0; i < result.images.length; i++) {
-        const img = result.images[i];
-        if (args.output_path) {
-          const ext = img.mimeType === 'image/png' ? '.png' : img.mimeType === 'image/webp' ? '.webp' : '.jpg';
-          let filePath = args.output_path.replace(/\.[^.]+$/, '') + ext;
-          if (result.images.length > 1) filePath = filePath.replace(/(\.[^.]+)$/, `_${i + 1}$1`);
-          const absPath = resolve(filePath);
-          await writeFile(absPath, Buffer.from(img.data, "base64"));
-          content.push({ type: "text", text: `Saved: ${absPath}` });
-        } else {
-          content.push({ type: "image", data: img.data, mimeType: img.mimeType });
-        }
-      }
+      content.push(...await saveImages(result.images, args, await provenanceFor("gemini_edit", args, result)));
       return { content };
-    });
+    }));
 
-    server.registerTool("gemini_svg", {
-      description: "Generate SVG code using Gemini 3 Pro. Best for logos, icons, and simple vector graphics.",
+    register("gemini_svg", {
+      description: "Generate SVG code using Gemini 3 Pro. Best for logos, icons, and simple vector graphics. Pass input_svg to modify an existing SVG. Output is validated as XML (invalid output is sent back for repair), sanitized of scripts and remote references, and optimized; set preview for a PNG rendering.",
       inputSchema: GeminiSvgSchema,
-    }, async (args) => {
-      const result = await callGeminiSvg(apiKey, args.prompt, {
-        instructions: args.instructions
-      });
+    }, batchable("gemini_svg", GeminiSvgSchema, async (args, extra) => {
+      await assertWritable([args.output_path]);
+      const inputSvg = args.input_svg ? await readFile(await allowedInputPath(args.input_svg), "utf-8") : undefined;
+      const result = await metered("gemini_svg", extra, () => callGeminiSvg(args.prompt, {
+        model: args.model,
+        instructions: args.instructions,
+        inputSvg,
+        optimize: args.optimize,
+        cache: args.cache,
+        signal: extra.signal
+      }));
 
-      if (args.output_path) {
-        const absPath = resolve(args.output_path);
-        await writeFile(absPath, result.svg);
-        let text = `Saved SVG: ${absPath}`;
-        if (result.usage) text += `\n\n**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total`;
-        return { content: [{ type: "text", text }] };
+      const content: ToolContent[] = [];
+      if (!args.output_path) content.push({ type: "text", text: result.svg });
+      const savedPath = await writeAsset(args.output_path ?? `${defaultOutputPath("gemini_svg")}.svg`, result.svg, await provenanceFor("gemini_svg", args, result), {
+        overwrite: args.overwrite, embed: args.embed_metadata,
+      });
+      content.push({ type: "text", text: `Saved SVG: ${savedPath}` });
+      if (result.changes?.length) content.push({ type: "text", text: `**Sanitized:** ${result.changes.join("; ")}` });
+      if (args.preview) {
+        const png = await rasterizeSvg(result.svg, args.preview_size);
+        content.push({ type: "image", data: png.toString("base64"), mimeType: "image/png" });
       }
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
+      return { content };
+    }));
 
-      let text = result.svg;
-      if (result.usage) text += `\n\n**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total`;
-      return { content: [{ type: "text", text }] };
-    });
+    register("gemini_svg_icons", {
+      description: "Generate a consistent icon set: one SVG per concept sharing grid size, stroke width, palette and style, written to output_dir with a manifest.json. Icons are drawn in one conversation and checked against the constraints.",
+      inputSchema: GeminiSvgIconsSchema,
+    }, regenerable("gemini_svg_icons", GeminiSvgIconsSchema, async (args, extra) => {
+      const dir = resolve(args.output_dir);
+      await assertWritable([dir]);
+      const constraints = { grid: args.grid, strokeWidth: args.stroke_width, palette: args.palette, style: args.style };
 
-    server.registerTool("gemini_segment", {
-      description: "Segment objects in an image using Gemini 2.5. Returns masks for background removal or object isolation.",
-      inputSchema: GeminiSegmentSchema,
-    }, async (args) => {
-      const absInputPath = resolve(args.input_image);
-      const imageBuffer = await readFile(absInputPath);
-      const inputImage: Image = {
-        imageBytes: imageBuffer.toString('base64'),
-        mimeType: getMimeType(absInputPath)
+      const files = new Map<string, string>();
+      const result = await metered("gemini_svg_icons", extra, () => callGeminiIconSet(args.concepts, constraints, {
+        model: args.model,
+        optimize: args.optimize,
+        ...streamOptions(extra),
+        // Write each icon as soon as it is accepted so a failure late in the set keeps the rest
+        onIcon: async (icon) => {
+          if (!icon.svg) return;
+          const slug = icon.concept.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "icon";
+          let file = `${slug}.svg`;
+          for (let n = 2; [...files.values()].includes(file); n++) file = `${slug}-${n}.svg`;
+          const provenance = await provenanceFor("gemini_svg_icons", { ...args, concepts: [icon.concept] }, { model: resolveModel('svg', args.model) });
+          files.set(icon.concept, basename(await writeAsset(join(dir, file), icon.svg, provenance, { overwrite: args.overwrite, embed: args.embed_metadata })));
+        },
+      }));
+
+      const manifest = {
+        generatedAt: new Date().toISOString(),
+        model: result.model,
+        constraints: { grid: args.grid, stroke_width: args.stroke_width, palette: args.palette, style: args.style },
+        icons: result.icons.map(icon => ({ concept: icon.concept, file: files.get(icon.concept), changes: icon.changes, error: icon.error })),
       };
+      const manifestPath = await writeOutput(join(dir, "manifest.json"), JSON.stringify(manifest, null, 2), args.overwrite);
 
-      const result = await callGeminiSegment(apiKey, inputImage, args.prompt);
+      const lines = manifest.icons.map(i => i.file ? `- ${i.concept}: ${join(dir, i.file)}` : `- ${i.concept}: FAILED - ${i.error?.split("\n")[0]}`);
+      const failed = manifest.icons.filter(i => !i.file).length;
+      let text = `Generated ${manifest.icons.length - failed}/${manifest.icons.length} icons in ${dir}\n${lines.join("\n")}\n\nManifest: ${manifestPath}`;
+      if (result.usage) text += `\n\n**Usage:** ${formatUsage(result.usage)}`;
+      return { content: [{ type: "text", text }], isError: failed === manifest.icons.length };
+    }));
 
-      const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> = [];
+    register("gemini_segment", {
+      description: "Segment objects in an image using Gemini. Returns labels with normalized and pixel bounding boxes, and can save a combined full-size mask (optionally filtered by label), per-segment masks and a transparent cutout. Compositing happens locally.",
+      inputSchema: GeminiSegmentSchema,
+    }, regenerable("gemini_segment", GeminiSegmentSchema, async (args, extra) => {
+      await assertWritable([args.output_mask_path, args.output_segments_dir, args.output_cutout_path]);
+      const { buffer: imageBuffer, image: inputImage } = await loadImage(args.input_image);
+
+      const result = await metered("gemini_segment", extra, () => callGeminiSegment(inputImage, args.prompt, { model: args.model, cache: args.cache, signal: extra.signal }));
+
+      const content: ToolContent[] = [];
 
       if (result.masks.length === 0) {
         content.push({ type: "text", text: "No objects detected for segmentation." });
       } else {
+        // Masks arrive sized to their boxes; place them on the full image before anything else
+        const { width, height } = await imageSize(imageBuffer);
+        const segments = await placeMasks(result.masks, width, height);
+        const filters = args.labels?.map(l => l.toLowerCase());
+        const selected = filters ? segments.filter(s => filters.some(f => s.label?.toLowerCase().includes(f))) : segments;
+
+        const provenance = await provenanceFor("gemini_segment", args, result);
+        const segmentPaths: string[] = [];
+        if (args.output_segments_dir) {
+          for (let i = 0; i < segments.length; i++) {
+            const slug = (segments[i].label || "segment").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+            segmentPaths[i] = await writeAsset(join(args.output_segments_dir, `${i}_${slug || "segment"}.png`), await encodeMask(segments[i].mask, width, height), provenance, { overwrite: args.overwrite });
+          }
+        }
+
         // Return mask data as JSON for further processing
-        const maskInfo = result.masks.map((m, i) => ({
+        const maskInfo = segments.map((s, i) => ({
           index: i,
-          label: m.label,
-          box_2d: m.box_2d,
-          mask_base64_length: m.mask.length
+          label: s.label,
+          box_2d: s.box_2d,
+          box: s.box,
+          pixels: countPixels(s.mask),
+          selected: selected.includes(s),
+          mask_path: segmentPaths[i],
         }));
-        content.push({ type: "text", text: `Found ${result.masks.length} segment(s):\n${JSON.stringify(maskInfo, null, 2)}` });
-
-        // If output path specified, save the first mask (or combined mask)
-        if (args.output_mask_path && result.masks.length > 0) {
-          // Return the first mask as a PNG
-          const firstMask = result.masks[0];
-          const absPath = resolve(args.output_mask_path);
-          const maskBuffer = Buffer.from(firstMask.mask, 'base64');
-          await writeFile(absPath, maskBuffer);
-          content.push({ type: "text", text: `Saved mask: ${absPath} (label: ${firstMask.label})` });
+        content.push({ type: "text", text: `Found ${segments.length} segment(s) in ${width}x${height} image:\n${JSON.stringify(maskInfo, null, 2)}` });
+
+        if (args.output_mask_path || args.output_cutout_path) {
+          if (selected.length === 0) {
+            content.push({ type: "text", text: `No segments match labels: ${args.labels!.join(", ")}` });
+          } else {
+            const union = unionMask(selected, width, height);
+            if (args.output_mask_path) {
+              const absPath = await writeAsset(args.output_mask_path, await encodeMask(union, width, height), provenance, { overwrite: args.overwrite });
+              content.push({ type: "text", text: `Saved mask: ${absPath} (${selected.length} segment(s), ${countPixels(union)} pixels)` });
+            }
+            if (args.output_cutout_path) {
+              const absPath = await writeAsset(args.output_cutout_path, await cutout(imageBuffer, union, width, height), provenance, { overwrite: args.overwrite });
+              content.push({ type: "text", text: `Saved cutout: ${absPath}` });
+            }
+          }
         }
       }
 
-      if (result.usage) content.push({ type: "text", text: `**Usage:** ${result.usage.promptTokens} prompt, ${result.usage.completionTokens} completion, ${result.usage.totalTokens} total` });
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
       return { content };
+    }));
+
+    register("gemini_detect", {
+      description: "Detect objects in an image and return labeled bounding boxes in pixel and normalized (0-1000) coordinates. Optionally returns or saves an annotated preview with the boxes drawn.",
+      inputSchema: GeminiDetectSchema,
+      outputSchema: GeminiDetectOutputSchema,
+    }, regenerable("gemini_detect", GeminiDetectSchema, async (args, extra) => {
+      await assertWritable([args.output_annotated_path]);
+      const { buffer: imageBuffer, image: inputImage } = await loadImage(args.input_image);
+
+      const result = await metered("gemini_detect", extra, () => callGeminiDetect(inputImage, {
+        model: args.model, prompt: args.prompt, labels: args.labels, maxObjects: args.max_objects, cache: args.cache, signal: extra.signal,
+      }));
+
+      const { width, height } = await imageSize(imageBuffer);
+      const objects = result.objects.map((o, i) => ({ index: i, label: String(o.label ?? ""), box_2d: o.box_2d, box: boxToPixels(o.box_2d, width, height) }));
+      const structured: { width: number; height: number; objects: typeof objects; annotated_path?: string } = { width, height, objects };
+
+      const content: ToolContent[] = [
+        { type: "text", text: objects.length > 0 ? `Found ${objects.length} object(s) in ${width}x${height} image:\n${JSON.stringify(objects, null, 2)}` : "No objects detected." },
+      ];
+
+      if ((args.annotate || args.output_annotated_path) && objects.length > 0) {
+        const annotated = await annotate(imageBuffer, objects, width, height);
+        if (args.output_annotated_path) {
+          structured.annotated_path = await writeAsset(args.output_annotated_path, annotated, await provenanceFor("gemini_detect", args, result), { overwrite: args.overwrite });
+          content.push({ type: "text", text: `Saved annotated image: ${structured.annotated_path}` });
+        }
+        if (args.annotate) content.push({ type: "image", data: annotated.toString("base64"), mimeType: "image/png" });
+      }
+
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
+      return { content, structuredContent: structured };
+    }));
+
+    register("gemini_describe", {
+      description: "Describe one or more local images: a caption, alt text, or a detailed description.",
+      inputSchema: GeminiDescribeSchema,
+      outputSchema: GeminiTextOutputSchema,
+    }, async (args, extra) => {
+      const images = await Promise.all(args.images.map(async (path) => (await loadImage(path)).image));
+      const result = await metered("gemini_describe", extra, () => callGeminiDescribe(images, {
+        model: args.model, style: args.style, focus: args.focus, maxTokens: args.max_tokens, cache: args.cache, ...streamOptions(extra),
+      }));
+      return textToolResult(result);
+    });
+
+    register("gemini_ocr", {
+      description: "Read the text in an image. Returns text blocks with their kind and positions (pixel and normalized), plus the full text as plain text or Markdown.",
+      inputSchema: GeminiOcrSchema,
+      outputSchema: GeminiOcrOutputSchema,
+    }, async (args, extra) => {
+      const { buffer: imageBuffer, image: inputImage } = await loadImage(args.input_image);
+      const result = await metered("gemini_ocr", extra, () => callGeminiOcr(inputImage, { model: args.model, format: args.format, cache: args.cache, signal: extra.signal }));
+
+      const { width, height } = await imageSize(imageBuffer);
+      const blocks = result.blocks.map(b => ({ ...b, box: boxToPixels(b.box_2d, width, height) }));
+      const content = [
+        { type: "text" as const, text: result.text || "No text found." },
+        { type: "text" as const, text: `**Blocks:** ${JSON.stringify(blocks.map(({ text, kind, box }) => ({ text, kind, box })), null, 2)}` },
+      ];
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
+      return { content, structuredContent: { text: result.text, blocks } };
+    });
+
+    register("gemini_compare", {
+      description: "Compare two images (e.g. before/after screenshots) and report the differences as structured data: added, removed, changed or moved elements with locations.",
+      inputSchema: GeminiCompareSchema,
+      outputSchema: GeminiCompareOutputSchema,
+    }, async (args, extra) => {
+      const before = await loadImage(args.before_image);
+      const after = await loadImage(args.after_image);
+      const result = await metered("gemini_compare", extra, () => callGeminiCompare(before.image, after.image, { model: args.model, focus: args.focus, cache: args.cache, signal: extra.signal }));
+
+      const sizes = { before: await imageSize(before.buffer), after: await imageSize(after.buffer) };
+      const differences = result.differences.map(d => ({
+        ...d,
+        box: d.box_2d ? boxToPixels(d.box_2d, sizes[d.image].width, sizes[d.image].height) : undefined,
+      }));
+      const lines = differences.map((d, i) => `${i + 1}. [${d.type}] ${d.description}${d.box ? ` (${d.image}: x=${d.box.x}, y=${d.box.y}, ${d.box.width}x${d.box.height})` : ''}`);
+      const content = [
+        { type: "text" as const, text: `**${result.identical ? "Identical" : `${differences.length} difference(s)`}:** ${result.summary}${lines.length > 0 ? `\n\n${lines.join("\n")}` : ""}` },
+      ];
+      if (result.usage) content.push({ type: "text", text: `**Usage:** ${formatUsage(result.usage)}` });
+      if (result.cached) content.push({ type: "text", text: CACHE_HIT_NOTE });
+      return { content, structuredContent: { identical: result.identical, summary: result.summary, differences } };
     });
+
+    register("gemini_regenerate", {
+      description: "Re-run the request that produced a generated file, from its provenance sidecar (or the record embedded in a PNG or SVG), optionally with overrides such as a new seed or prompt. Reports input files that changed since.",
+      inputSchema: GeminiRegenerateSchema,
+    }, async (args, extra) => {
+      const record = await readProvenance(await allowedInputPath(args.path));
+      const tool = regenerableTools.get(record.tool);
+      if (!tool) {
+        throw new Error(`Files from ${record.tool} cannot be regenerated (supported: ${[...regenerableTools.keys()].join(", ")})`);
+      }
+
+      // The recorded model is pinned so a changed default does not alter the request
+      const toolArgs = tool.schema.parse({
+        ...record.args, model: record.model, ...args.overrides,
+        ...(args.output_path ? { output_path: args.output_path } : {}),
+      });
+      const changed: string[] = [];
+      for (const input of record.inputs) {
+        // A sidecar is just a file, so the paths it names are held to the allowed directories too
+        await allowedInputPath(input.path);
+        const current = await hashInputs([input.path]).catch(() => undefined);
+        if (current?.[0].sha256 !== input.sha256) changed.push(`${input.path} ${current ? "has changed" : "is missing"}`);
+      }
+
+      const result = await tool.run(toolArgs, extra);
+      let header = `Regenerated ${record.tool} output from ${record.createdAt} (${record.model})`;
+      if (args.overrides) header += ` with overrides: ${Object.keys(args.overrides).join(", ")}`;
+      if (changed.length > 0) header += `\n**Inputs changed since:** ${changed.join("; ")}`;
+      return { ...result, content: [{ type: "text", text: header }, ...result.content] };
+    });
+
+    register("gemini_batch_submit", {
+      description: "Queue many calls to gemini_image, gemini_upscale, gemini_edit, gemini_svg or gemini_generate. Items come from a JSONL job spec or a glob of input files with an argument template, run in the background with bounded concurrency and rate limiting, and resume after a restart. Returns a batch ID for gemini_batch_status and gemini_batch_results.",
+      inputSchema: GeminiBatchSubmitSchema,
+    }, async (args, extra) => {
+      const session = extra.sessionId ?? PROCESS_SESSION_ID;
+      await assertCanStartBatch(session);
+      const items = await expandJobSpec(args);
+
+      if (args.mode === "batch_api") {
+        if (items.some(item => item.tool !== "gemini_generate")) throw new Error('mode "batch_api" only runs gemini_generate items');
+        await assertWithinBudget(session);
+        const requests = await Promise.all(items.map(async (item) => {
+          const itemArgs = batchTools.get(item.tool)!.schema.parse(item.args) as z.infer<z.ZodObject<typeof GeminiGenerateSchema>>;
+          return { prompt: itemArgs.prompt, options: { ...textOptions(itemArgs), attachments: await loadAttachments(itemArgs.attachments), signal: extra.signal } };
+        }));
+        const job = await submitTextBatch(requests, `gemcp batch (${items.length} items)`);
+        const batch = await createBatch({
+          mode: "batch_api", session, concurrency: 1, items: items.map(item => ({ ...item, status: "running" })),
+          remote: { name: job.name, model: job.model, state: job.state },
+        });
+        return { content: [{ type: "text", text: `${formatBatch(batch)}\n\nSubmitted to the Gemini Batch API; results usually arrive within hours (at most 24). Poll with gemini_batch_status.` }] };
+      }
+
+      const batch = await createBatch({ mode: "local", session, concurrency: args.concurrency, ratePerMinute: args.rate_per_minute, items });
+      runBatch(batch, runBatchItem);
+      return { content: [{ type: "text", text: `${formatBatch(batch)}\n\nRunning in the background. Check progress with gemini_batch_status.` }] };
+    });
+
+    register("gemini_batch_status", {
+      description: "Show a batch's progress (items pending, running, succeeded and failed), or list recent batches when no batch_id is given.",
+      inputSchema: GeminiBatchStatusSchema,
+    }, async (args, extra) => {
+      if (!args.batch_id) {
+        const batches = await listBatches();
+        if (batches.length === 0) return { content: [{ type: "text", text: "No batches yet. Submit one with gemini_batch_submit." }] };
+        return { content: [{ type: "text", text: batches.slice(0, 20).map(formatBatch).join("\n\n") }] };
+      }
+      const batch = await loadRefreshedBatch(args.batch_id, extra.signal);
+      const failures = batch.items.filter(i => i.status === "failed").slice(0, 5)
+        .map(i => `- Item ${i.index}${i.source ? ` (${i.source})` : ""}: ${i.error}`);
+      const text = formatBatch(batch) + (failures.length > 0 ? `\n\n**Failures:**\n${failures.join("\n")}` : "");
+      return { content: [{ type: "text", text }] };
+    });
+
+    register("gemini_batch_results", {
+      description: "Per-item outcomes of a batch: output text, files written and errors. Optionally exports them as JSONL.",
+      inputSchema: GeminiBatchResultsSchema,
+    }, async (args, extra) => {
+      const batch = await loadRefreshedBatch(args.batch_id, extra.signal);
+      const items = batch.items.filter(i => args.status === "all" || i.status === args.status);
+
+      const sections = items.map((i) => {
+        const lines = [`### Item ${i.index} - ${i.status} (${i.tool})`];
+        if (i.source) lines.push(`Source: ${i.source}`);
+        if (i.files?.length) lines.push(`Files: ${i.files.join(", ")}`);
+        if (i.error) lines.push(`Error: ${i.error}`);
+        else if (i.output) lines.push(i.output);
+        return lines.join("\n");
+      });
+      let text = `${formatBatch(batch)}\n\n${sections.join("\n\n") || `No ${args.status} items.`}`;
+      if (args.output_path) {
+        const absPath = await writeOutput(args.output_path, items.map(({ index, tool, source, status, files, output, error, args: itemArgs }) =>
+          JSON.stringify({ index, tool, source, status, args: itemArgs, files, output, error })).join("\n") + "\n");
+        text += `\n\nSaved: ${absPath}`;
+      }
+      return { content: [{ type: "text", text }] };
+    });
+  }
+
+  return server;
+}
+
+async function main() {
+  const http = await httpSettings(process.argv.slice(2));
+  if (http) {
+    const { url, close } = serveHttp(createServer, http, () => ({ version: pkg.version, configured: isConfigured }));
+    process.on("SIGINT", async () => { await close(); process.exit(0); });
+    console.error(`Gemini MCP server listening on ${url}${isConfigured ? "" : " (setup required)"}`);
+    // Batch items run through the handlers createServer registers, so fill that registry
+    // before unfinished batches resume, even if no client has connected yet
+    createServer();
+  } else {
+    const server = createServer();
+    process.on("SIGINT", async () => { await server.close(); process.exit(0); });
+    await server.connect(new StdioServerTransport());
+    console.error(isConfigured ? "Gemini MCP server running" : "Gemini MCP server running (setup required)");
   }
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error(isConfigured ? "Gemini MCP server running" : "Gemini MCP server running (setup required)");
+  for (const problem of configurationProblems()) console.error(`Setup: ${problem}`);
+  for (const pattern of unmatchedToolPatterns([...toolNames])) console.error(`Config: tools entry "${pattern}" matches no tool`);
+
+  if (isConfigured) {
+    const resumed = await resumeBatches(runBatchItem);
+    if (resumed > 0) console.error(`Resumed ${resumed} unfinished batch(es)`);
+  }
 }
 
 main().catch((error) => { console.error("Server error:", error); process.exit(1); });
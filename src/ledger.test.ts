@@ -0,0 +1,22 @@
+import { expect, test } from "bun:test";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { readLedger, type LedgerEntry } from "./ledger.js";
+import { DATA_DIR } from "./store.js";
+
+function entry(tool: string): LedgerEntry {
+  return {
+    timestamp: "2025-01-01T00:00:00.000Z", tool, model: "gemini-2.5-flash", session: "s",
+    promptTokens: 1, completionTokens: 1, thoughtTokens: 0, images: 0, costUsd: 0.01,
+  };
+}
+
+test("readLedger reads each line once when called concurrently", async () => {
+  const lines = ["a", "b", "c"].map(tool => JSON.stringify(entry(tool))).join("\n") + "\n";
+  await writeFile(join(DATA_DIR, "usage.jsonl"), lines);
+
+  const [first, second] = await Promise.all([readLedger(), readLedger()]);
+  expect(first.map(e => e.tool)).toEqual(["a", "b", "c"]);
+  expect(second.map(e => e.tool)).toEqual(["a", "b", "c"]);
+  expect((await readLedger()).length).toBe(3);
+});
@@ -0,0 +1,144 @@
+// Usage ledger: one JSON line per API-backed tool call, priced at record time, with optional budgets
+import { randomUUID } from "crypto";
+import { appendFile, mkdir, open, readFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { getModelInfo } from "./models.js";
+import type { ModelPricing } from "./models.js";
+import { DATA_DIR } from "./store.js";
+import type { Usage } from "./utils.js";
+
+const LEDGER_PATH = join(DATA_DIR, "usage.jsonl");
+
+// Identifies this server process when the transport has no session of its own (stdio)
+export const PROCESS_SESSION_ID = randomUUID();
+
+export interface LedgerEntry {
+  timestamp: string;
+  tool: string;
+  model: string;
+  session: string;
+  promptTokens: number;
+  completionTokens: number;
+  thoughtTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+function envBudget(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export const BUDGETS = {
+  dailyUsd: envBudget("GEMCP_DAILY_BUDGET_USD"),
+  sessionUsd: envBudget("GEMCP_SESSION_BUDGET_USD"),
+};
+
+// Built-in list prices, overridable per model with a JSON file: { "model-id": { "input": 2, "output": 12, "image": 0.03 } }
+let priceOverrides: Record<string, ModelPricing> | undefined;
+
+async function loadPriceOverrides(): Promise<Record<string, ModelPricing>> {
+  if (priceOverrides) return priceOverrides;
+  const path = process.env.GEMCP_PRICES_FILE;
+  priceOverrides = path ? JSON.parse(await readFile(resolve(path), "utf-8")) as Record<string, ModelPricing> : {};
+  return priceOverrides;
+}
+
+export async function priceFor(model: string): Promise<ModelPricing | undefined> {
+  return (await loadPriceOverrides())[model] ?? getModelInfo(model)?.pricing;
+}
+
+export function costOf(pricing: ModelPricing | undefined, usage: Usage | undefined, images: number): number {
+  if (!pricing) return 0;
+  const outputTokens = (usage?.completionTokens || 0) + (usage?.thoughtTokens || 0);
+  return ((usage?.promptTokens || 0) * (pricing.input || 0) + outputTokens * (pricing.output || 0)) / 1e6
+    + images * (pricing.image || 0);
+}
+
+// Entries are cached in memory and the file is tailed from the last read offset,
+// so calls logged by other gemcp processes sharing the ledger still count
+let entries: LedgerEntry[] = [];
+let readOffset = 0;
+// Concurrent callers share one read, so the same tail is never appended twice
+let reading: Promise<LedgerEntry[]> | undefined;
+
+export function readLedger(): Promise<LedgerEntry[]> {
+  reading ??= readNewEntries().finally(() => { reading = undefined; });
+  return reading;
+}
+
+async function readNewEntries(): Promise<LedgerEntry[]> {
+  let file;
+  try {
+    file = await open(LEDGER_PATH, "r");
+  } catch {
+    return entries;
+  }
+  try {
+    const { size } = await file.stat();
+    if (size < readOffset) { entries = []; readOffset = 0; }
+    if (size > readOffset) {
+      const buffer = Buffer.alloc(size - readOffset);
+      await file.read(buffer, 0, buffer.length, readOffset);
+      const text = buffer.toString("utf-8");
+      // Only consume complete lines; a concurrent writer may be mid-line
+      const end = text.lastIndexOf("\n") + 1;
+      for (const line of text.slice(0, end).split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line) as LedgerEntry);
+        } catch {
+          console.error("Skipping malformed usage ledger line");
+        }
+      }
+      readOffset += Buffer.byteLength(text.slice(0, end));
+    }
+  } finally {
+    await file.close();
+  }
+  return entries;
+}
+
+export async function recordUsage(entry: Omit<LedgerEntry, "timestamp" | "costUsd" | "promptTokens" | "completionTokens" | "thoughtTokens"> & { usage?: Usage }): Promise<LedgerEntry> {
+  const { usage, ...rest } = entry;
+  const record: LedgerEntry = {
+    timestamp: new Date().toISOString(),
+    ...rest,
+    promptTokens: usage?.promptTokens || 0,
+    completionTokens: usage?.completionTokens || 0,
+    thoughtTokens: usage?.thoughtTokens || 0,
+    costUsd: costOf(await priceFor(entry.model), usage, entry.images),
+  };
+  await mkdir(dirname(LEDGER_PATH), { recursive: true });
+  await appendFile(LEDGER_PATH, JSON.stringify(record) + "\n");
+  return record;
+}
+
+// Days are UTC, matching the ledger timestamps
+export function dayOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+export function sumCost(list: LedgerEntry[]): number {
+  return list.reduce((total, e) => total + e.costUsd, 0);
+}
+
+// Refuse further calls once the daily or per-session cap has been reached
+export async function assertWithinBudget(session: string): Promise<void> {
+  if (!BUDGETS.dailyUsd && !BUDGETS.sessionUsd) return;
+  const all = await readLedger();
+
+  if (BUDGETS.dailyUsd) {
+    const today = dayOf(new Date().toISOString());
+    const spent = sumCost(all.filter(e => dayOf(e.timestamp) === today));
+    if (spent >= BUDGETS.dailyUsd) {
+      throw new Error(`Daily budget exceeded: $${spent.toFixed(4)} spent today (UTC) of $${BUDGETS.dailyUsd.toFixed(2)} (GEMCP_DAILY_BUDGET_USD). Further Gemini calls are refused until tomorrow; see gemini_usage_report.`);
+    }
+  }
+  if (BUDGETS.sessionUsd) {
+    const spent = sumCost(all.filter(e => e.session === session));
+    if (spent >= BUDGETS.sessionUsd) {
+      throw new Error(`Session budget exceeded: $${spent.toFixed(4)} spent in this session of $${BUDGETS.sessionUsd.toFixed(2)} (GEMCP_SESSION_BUDGET_USD). Start a new MCP session to continue; see gemini_usage_report.`);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+// Local image processing for the vision tools (mask compositing, annotated previews) - no API calls
+import sharp from "sharp";
+import type { SegmentationMask } from "./utils.js";
+
+// Pixel bounds, end-exclusive
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PlacedSegment {
+  label: string;
+  box_2d: [number, number, number, number];
+  box: PixelBox;
+  // One byte per pixel of the full image: 255 = selected, 0 = background
+  mask: Uint8Array;
+}
+
+// Gemini mask pixels are probabilities; this is the cut-off for "selected"
+const MASK_THRESHOLD = 127;
+
+// box_2d is [ymin, xmin, ymax, xmax] normalized to 0-1000
+export function boxToPixels(box: [number, number, number, number], width: number, height: number): PixelBox {
+  const clamp = (v: number, max: number) => Math.min(max, Math.max(0, Math.round(v)));
+  const y0 = clamp(box[0] / 1000 * height, height);
+  const x0 = clamp(box[1] / 1000 * width, width);
+  const y1 = clamp(box[2] / 1000 * height, height);
+  const x1 = clamp(box[3] / 1000 * width, width);
+  return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+}
+
+export async function imageSize(image: Buffer): Promise<{ width: number; height: number }> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) throw new Error("Could not read the image dimensions");
+  return { width, height };
+}
+
+// Resize each box-sized mask to its box and place it into full image coordinates
+export async function placeMasks(masks: SegmentationMask[], width: number, height: number): Promise<PlacedSegment[]> {
+  const placed: PlacedSegment[] = [];
+  for (const m of masks) {
+    if (!Array.isArray(m.box_2d) || m.box_2d.length !== 4) continue;
+    const box = boxToPixels(m.box_2d, width, height);
+    const mask = new Uint8Array(width * height);
+
+    if (m.mask && box.width > 0 && box.height > 0) {
+      const { data, info } = await sharp(Buffer.from(m.mask, "base64"))
+        .removeAlpha()
+        .greyscale()
+        .resize(box.width, box.height, { fit: "fill" })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      for (let y = 0; y < box.height; y++) {
+        for (let x = 0; x < box.width; x++) {
+          if (data[(y * box.width + x) * info.channels] > MASK_THRESHOLD) {
+            mask[(box.y + y) * width + box.x + x] = 255;
+          }
+        }
+      }
+    }
+    placed.push({ label: m.label, box_2d: m.box_2d, box, mask });
+  }
+  return placed;
+}
+
+export function unionMask(segments: PlacedSegment[], width: number, height: number): Uint8Array {
+  const union = new Uint8Array(width * height);
+  for (const s of segments) {
+    for (let i = 0; i < union.length; i++) {
+      if (s.mask[i]) union[i] = 255;
+    }
+  }
+  return union;
+}
+
+export function countPixels(mask: Uint8Array): number {
+  let count = 0;
+  for (const v of mask) if (v) count++;
+  return count;
+}
+
+export function encodeMask(mask: Uint8Array, width: number, height: number): Promise<Buffer> {
+  return sharp(Buffer.from(mask), { raw: { width, height, channels: 1 } }).toColourspace("b-w").png().toBuffer();
+}
+
+// Source image with everything outside the mask made transparent
+export async function cutout(image: Buffer, mask: Uint8Array, width: number, height: number): Promise<Buffer> {
+  const rgb = await sharp(image).removeAlpha().toColourspace("srgb").raw().toBuffer();
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    rgba[i * 4] = rgb[i * 3];
+    rgba[i * 4 + 1] = rgb[i * 3 + 1];
+    rgba[i * 4 + 2] = rgb[i * 3 + 2];
+    rgba[i * 4 + 3] = mask[i];
+  }
+  return sharp(rgba, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+const BOX_COLORS = ['#ff3b30', '#34c759', '#007aff', '#ff9500', '#af52de', '#00c7be', '#ffcc00', '#ff2d55'];
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c]!);
+}
+
+// Copy of the image with each box outlined and labeled, as PNG
+export function annotate(image: Buffer, boxes: Array<{ label: string; box: PixelBox }>, width: number, height: number): Promise<Buffer> {
+  const stroke = Math.max(2, Math.round(Math.min(width, height) / 300));
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 40));
+  const shapes = boxes.map(({ label, box }, i) => {
+    const color = BOX_COLORS[i % BOX_COLORS.length];
+    const text = escapeXml(`${i}: ${label}`);
+    const labelWidth = Math.round(text.length * fontSize * 0.6) + 8;
+    // Put the label above the box, or inside it when the box touches the top edge
+    const labelY = box.y >= fontSize + 6 ? box.y - fontSize - 6 : box.y;
+    return `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`
+      + `<rect x="${box.x}" y="${labelY}" width="${labelWidth}" height="${fontSize + 6}" fill="${color}"/>`
+      + `<text x="${box.x + 4}" y="${labelY + fontSize}" font-family="sans-serif" font-size="${fontSize}" fill="#fff">${text}</text>`;
+  });
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+  return sharp(image).composite([{ input: Buffer.from(overlay), top: 0, left: 0 }]).png().toBuffer();
+}
@@ -0,0 +1,166 @@
+// Model catalog - the models each tool may be pointed at, with their capabilities and limits
+import { configured } from "./config.js";
+
+export type ModelCapability = 'text' | 'image' | 'imagen' | 'edit' | 'upscale';
+
+// List prices in USD: per million tokens (output includes thinking tokens), or per image for Imagen
+export interface ModelPricing {
+  input?: number;
+  output?: number;
+  image?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  description: string;
+  capabilities: ModelCapability[];
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  // Most input images a native image model accepts in one request
+  maxReferenceImages?: number;
+  pricing?: ModelPricing;
+}
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-3-pro-preview',
+    description: 'Gemini 3 Pro - strongest reasoning and coding',
+    capabilities: ['text'],
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    pricing: { input: 2, output: 12 },
+  },
+  {
+    id: 'gemini-3-flash-preview',
+    description: 'Gemini 3 Flash - fast frontier model',
+    capabilities: ['text'],
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    pricing: { input: 0.5, output: 3 },
+  },
+  {
+    id: 'gemini-2.5-pro',
+    description: 'Gemini 2.5 Pro - stable thinking model',
+    capabilities: ['text'],
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    pricing: { input: 1.25, output: 10 },
+  },
+  {
+    id: 'gemini-2.5-flash',
+    description: 'Gemini 2.5 Flash - cheap and fast, good for bulk work and segmentation',
+    capabilities: ['text'],
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    pricing: { input: 0.3, output: 2.5 },
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    description: 'Gemini 2.5 Flash-Lite - cheapest text model',
+    capabilities: ['text'],
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    pricing: { input: 0.1, output: 0.4 },
+  },
+  {
+    id: 'gemini-3-pro-image-preview',
+    description: 'Gemini 3 Pro Image - native image generation and editing up to 4K',
+    capabilities: ['image'],
+    inputTokenLimit: 65536,
+    outputTokenLimit: 32768,
+    maxReferenceImages: 14,
+    pricing: { input: 2, output: 120 },
+  },
+  {
+    id: 'gemini-2.5-flash-image',
+    description: 'Gemini 2.5 Flash Image - fast native image generation and editing',
+    capabilities: ['image'],
+    inputTokenLimit: 32768,
+    outputTokenLimit: 32768,
+    maxReferenceImages: 3,
+    pricing: { input: 0.3, output: 30 },
+  },
+  {
+    id: 'imagen-4.0-generate-001',
+    description: 'Imagen 4 - text-to-image generation up to 2K',
+    capabilities: ['imagen'],
+    inputTokenLimit: 480,
+    pricing: { image: 0.04 },
+  },
+  {
+    id: 'imagen-4.0-ultra-generate-001',
+    description: 'Imagen 4 Ultra - highest quality text-to-image, one image per call',
+    capabilities: ['imagen'],
+    inputTokenLimit: 480,
+    pricing: { image: 0.06 },
+  },
+  {
+    id: 'imagen-4.0-fast-generate-001',
+    description: 'Imagen 4 Fast - cheapest text-to-image',
+    capabilities: ['imagen'],
+    inputTokenLimit: 480,
+    pricing: { image: 0.02 },
+  },
+  {
+    id: 'imagen-3.0-generate-002',
+    description: 'Imagen 3 - text-to-image generation and upscaling',
+    capabilities: ['imagen', 'upscale'],
+    inputTokenLimit: 480,
+    pricing: { image: 0.03 },
+  },
+  {
+    id: 'imagen-3.0-capability-001',
+    description: 'Imagen 3 Capability - mask-based inpainting and outpainting',
+    capabilities: ['edit'],
+    inputTokenLimit: 480,
+    pricing: { image: 0.03 },
+  },
+];
+
+// What a tool uses the model for. Several roles share a capability but keep their own default.
+export type ModelRole = 'text' | 'svg' | 'segment' | 'detect' | 'vision' | 'image' | 'imagen' | 'edit' | 'upscale';
+
+const ROLE_CAPABILITY: Record<ModelRole, ModelCapability> = {
+  text: 'text',
+  svg: 'text',
+  segment: 'text',
+  detect: 'text',
+  vision: 'text',
+  image: 'image',
+  imagen: 'imagen',
+  edit: 'edit',
+  upscale: 'upscale',
+};
+
+// Server-wide defaults, overridable per role through env or gemcp.config.json
+export const DEFAULT_MODELS: Record<ModelRole, string> = {
+  text: configured('models.text', 'gemini-3-pro-preview', 'GEMINI_MODEL'),
+  svg: configured('models.svg', 'gemini-3-pro-preview', 'GEMINI_SVG_MODEL'),
+  segment: configured('models.segment', 'gemini-2.5-flash', 'GEMINI_SEGMENT_MODEL'),
+  detect: configured('models.detect', 'gemini-2.5-flash', 'GEMINI_DETECT_MODEL'),
+  vision: configured('models.vision', 'gemini-2.5-flash', 'GEMINI_VISION_MODEL'),
+  image: configured('models.image', 'gemini-3-pro-image-preview', 'GEMINI_IMAGE_MODEL'),
+  imagen: configured('models.imagen', 'imagen-4.0-generate-001', 'GEMINI_IMAGEN_MODEL'),
+  edit: configured('models.edit', 'imagen-3.0-capability-001', 'GEMINI_EDIT_MODEL'),
+  upscale: configured('models.upscale', 'imagen-3.0-generate-002', 'GEMINI_UPSCALE_MODEL'),
+};
+
+export function getModelInfo(id: string): ModelInfo | undefined {
+  return MODELS.find(m => m.id === id);
+}
+
+// Pick the requested model (or the role's default) and make sure it can do the job
+export function resolveModel(role: ModelRole, requested?: string): string {
+  const id = requested?.trim() || DEFAULT_MODELS[role];
+  const capability = ROLE_CAPABILITY[role];
+  const info = getModelInfo(id);
+  const supported = MODELS.filter(m => m.capabilities.includes(capability)).map(m => m.id);
+
+  if (!info) {
+    throw new Error(`Unknown model "${id}". Models with ${capability} capability: ${supported.join(', ')}. Use gemini_models to list all models.`);
+  }
+  if (!info.capabilities.includes(capability)) {
+    throw new Error(`Model "${id}" does not support ${capability} (it supports: ${info.capabilities.join(', ')}). Models with ${capability} capability: ${supported.join(', ')}.`);
+  }
+  return id;
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OUTPUT_POLICY, allowedInputPath, assertWritable, writeOutput } from "./paths.js";
+
+let base: string;
+let root: string;
+let outside: string;
+const saved = { ...OUTPUT_POLICY };
+
+beforeAll(async () => {
+  base = await mkdtemp(join(tmpdir(), "gemcp-paths-"));
+  root = join(base, "root");
+  outside = join(base, "outside");
+  await mkdir(root);
+  await mkdir(outside);
+  await writeFile(join(root, "in.png"), "inside");
+  await writeFile(join(outside, "secret.txt"), "secret");
+  await symlink(outside, join(root, "link"));
+  Object.assign(OUTPUT_POLICY, { roots: [root], outputDir: join(base, "output") });
+});
+
+afterAll(async () => {
+  Object.assign(OUTPUT_POLICY, saved);
+  await rm(base, { recursive: true, force: true });
+});
+
+describe("allowed directories", () => {
+  test("reads inside a root resolve to absolute paths", async () => {
+    expect(await allowedInputPath(join(root, "in.png"))).toBe(join(root, "in.png"));
+  });
+
+  test("refuses paths that climb out of a root", async () => {
+    await expect(allowedInputPath(join(root, "..", "outside", "secret.txt"))).rejects.toThrow("Refusing to read");
+    await expect(assertWritable([join(root, "..", "outside", "new.png")])).rejects.toThrow("Refusing to write");
+  });
+
+  test("refuses symlinks inside a root that lead outside it", async () => {
+    await expect(allowedInputPath(join(root, "link", "secret.txt"))).rejects.toThrow("Refusing to read");
+    await expect(writeOutput(join(root, "link", "new", "out.png"), "x")).rejects.toThrow("Refusing to write");
+  });
+
+  test("always allows the output directory", async () => {
+    const path = await writeOutput(join(OUTPUT_POLICY.outputDir, "nested", "out.png"), "x");
+    expect(await readFile(path, "utf-8")).toBe("x");
+  });
+});
+
+describe("writeOutput overwrite policies", () => {
+  test("suffix keeps the existing file and numbers the new one", async () => {
+    const target = join(root, "suffix", "out.png");
+    expect(await writeOutput(target, "first", "suffix")).toBe(target);
+    expect(await writeOutput(target, "second", "suffix")).toBe(join(root, "suffix", "out-1.png"));
+    expect(await writeOutput(target, "third", "suffix")).toBe(join(root, "suffix", "out-2.png"));
+    expect(await readFile(target, "utf-8")).toBe("first");
+  });
+
+  test("error refuses to touch an existing file", async () => {
+    const target = join(root, "error.png");
+    await writeOutput(target, "first", "error");
+    await expect(writeOutput(target, "second", "error")).rejects.toThrow("already exists");
+    expect(await readFile(target, "utf-8")).toBe("first");
+  });
+
+  test("replace overwrites in place", async () => {
+    const target = join(root, "replace.png");
+    await writeOutput(target, "first", "replace");
+    expect(await writeOutput(target, "second", "replace")).toBe(target);
+    expect(await readFile(target, "utf-8")).toBe("second");
+  });
+});
@@ -0,0 +1,95 @@
+// Where tools may write files and read input images from, and what happens when an output exists
+import { mkdir, realpath, writeFile } from "fs/promises";
+import { basename, delimiter, dirname, isAbsolute, join, parse, relative, resolve, sep } from "path";
+import { configured } from "./config.js";
+import { DATA_DIR } from "./store.js";
+
+export type OverwritePolicy = 'error' | 'suffix' | 'replace';
+
+const OVERWRITE_POLICIES: OverwritePolicy[] = ['error', 'suffix', 'replace'];
+
+function parseOverwrite(value: string): OverwritePolicy {
+  if (!OVERWRITE_POLICIES.includes(value as OverwritePolicy)) {
+    throw new Error(`GEMCP_OVERWRITE must be one of ${OVERWRITE_POLICIES.join(', ')}, got "${value}"`);
+  }
+  return value as OverwritePolicy;
+}
+
+export const OUTPUT_POLICY = {
+  // Directories outputs must stay inside; every input file a tool reads is held to the same list
+  roots: configured("output.roots", [process.cwd()], "GEMCP_OUTPUT_ROOT", raw => raw.split(delimiter).filter(Boolean)).map(p => resolve(p)),
+  // Where outputs go when a tool is called without an output path; always allowed
+  outputDir: resolve(configured("output.dir", join(DATA_DIR, "output"), "GEMCP_OUTPUT_DIR")),
+  overwrite: configured<OverwritePolicy>("output.overwrite", 'suffix', "GEMCP_OVERWRITE", parseOverwrite),
+};
+
+// Resolve symlinks in the part of the path that exists, so a link inside a root cannot lead outside it
+async function realPathOf(path: string): Promise<string> {
+  const rest: string[] = [];
+  for (let existing = path; ; existing = dirname(existing)) {
+    try {
+      return join(await realpath(existing), ...rest);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || dirname(existing) === existing) throw error;
+      rest.unshift(basename(existing));
+    }
+  }
+}
+
+function isWithin(path: string, root: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+async function checkAllowed(path: string, kind: 'write' | 'read'): Promise<string> {
+  const absPath = resolve(path);
+  const real = await realPathOf(absPath);
+  const roots = [...OUTPUT_POLICY.roots, OUTPUT_POLICY.outputDir];
+  for (const root of roots) {
+    if (isWithin(real, await realPathOf(root).catch(() => root))) return absPath;
+  }
+  throw new Error(`Refusing to ${kind} ${absPath}: it is outside the allowed directories (${roots.join(', ')}). Set GEMCP_OUTPUT_ROOT to allow other locations.`);
+}
+
+// Absolute path of an input file, once it is known to be inside an allowed directory
+export function allowedInputPath(path: string): Promise<string> {
+  return checkAllowed(path, 'read');
+}
+
+// Check requested output locations up front, so a disallowed path fails before any API call is paid for
+export async function assertWritable(paths: Array<string | undefined>): Promise<void> {
+  for (const path of paths) if (path) await checkAllowed(path, 'write');
+}
+
+// Output path (without extension) for a call that did not name one: <output dir>/<tool>-<UTC timestamp>
+export function defaultOutputPath(tool: string): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace('.', '-').replace('Z', '');
+  return join(OUTPUT_POLICY.outputDir, `${tool}-${stamp}`);
+}
+
+// Write an output file inside the allowed directories, creating parent directories. With the
+// suffix policy an existing file is kept and the output goes to name-1.ext, name-2.ext, ...
+// Returns the path actually written.
+export async function writeOutput(path: string, data: string | Buffer, overwrite: OverwritePolicy = OUTPUT_POLICY.overwrite): Promise<string> {
+  const target = await checkAllowed(path, 'write');
+  await mkdir(dirname(target), { recursive: true });
+  if (overwrite === 'replace') {
+    await writeFile(target, data);
+    return target;
+  }
+
+  const { dir, name, ext } = parse(target);
+  for (let n = 0; ; n++) {
+    const candidate = n === 0 ? target : join(dir, `${name}-${n}${ext}`);
+    try {
+      // wx fails if the file exists, so two concurrent calls never claim the same name
+      await writeFile(candidate, data, { flag: 'wx' });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      if (overwrite === 'error') {
+        throw new Error(`${target} already exists. Choose another output path, or pass overwrite: "suffix" or "replace".`);
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// Provenance for generated assets: a .json sidecar next to each saved file recording how it was
+// made, optionally also embedded in the file itself (PNG iTXt chunk or SVG <metadata>)
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { extname, resolve } from "path";
+import { crc32 } from "zlib";
+import { allowedInputPath, writeOutput } from "./paths.js";
+import type { OverwritePolicy } from "./paths.js";
+import type { Usage } from "./utils.js";
+
+export interface Provenance {
+  generator: string;
+  tool: string;
+  model: string;
+  // Tool arguments as the handler received them, defaults applied
+  args: Record<string, unknown>;
+  inputs: Array<{ path: string; sha256: string }>;
+  usage?: Usage;
+  createdAt: string;
+  // The saved file; filled in when it is written
+  output?: { path: string; sha256: string };
+}
+
+// Keyword of the PNG text chunk and namespace of the SVG element holding the record
+const PNG_KEYWORD = "gemcp:provenance";
+const SVG_NAMESPACE = "https://github.com/rohenaz/gemcp/provenance";
+
+export const PROVENANCE_SETTINGS = {
+  sidecars: !/^(0|false|no|off)$/i.test(process.env.GEMCP_SIDECARS?.trim() || ""),
+  embed: /^(1|true|yes|on)$/i.test(process.env.GEMCP_EMBED_METADATA?.trim() || ""),
+};
+
+export function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Inputs are read only inside the allowed directories, whatever path a record names
+export async function hashInputs(paths: string[]): Promise<Provenance["inputs"]> {
+  return Promise.all(paths.map(async (path) => {
+    const absPath = await allowedInputPath(path);
+    return { path: absPath, sha256: sha256(await readFile(absPath)) };
+  }));
+}
+
+export function sidecarPath(path: string): string {
+  return `${path}.json`;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// Insert an uncompressed UTF-8 iTXt chunk just before IEND
+function embedInPng(png: Buffer, text: string): Buffer {
+  const iend = png.lastIndexOf(Buffer.from("IEND", "latin1")) - 4;
+  if (iend < 8) return png;
+  const data = Buffer.concat([Buffer.from(`${PNG_KEYWORD}\0\0\0\0\0`, "latin1"), Buffer.from(text, "utf-8")]);
+  return Buffer.concat([png.subarray(0, iend), pngChunk("iTXt", data), png.subarray(iend)]);
+}
+
+function readFromPng(png: Buffer): string | undefined {
+  for (let offset = 8; offset + 8 <= png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("latin1", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "iTXt" && data.toString("latin1", 0, PNG_KEYWORD.length + 1) === `${PNG_KEYWORD}\0`) {
+      // keyword, compression flag and method, then empty language tag and translated keyword
+      return data.subarray(PNG_KEYWORD.length + 5).toString("utf-8");
+    }
+    offset += length + 12;
+  }
+  return undefined;
+}
+
+function embedInSvg(svg: string, text: string): string {
+  const cdata = text.replace(/]]>/g, "]]]]><![CDATA[>");
+  const metadata = `<metadata><gemcp:provenance xmlns:gemcp="${SVG_NAMESPACE}"><![CDATA[${cdata}]]></gemcp:provenance></metadata>`;
+  return svg.replace(/<svg\b[^>]*>/i, (open) => open.endsWith("/>") ? open : `${open}${metadata}`);
+}
+
+function readFromSvg(svg: string): string | undefined {
+  const match = /<gemcp:provenance\b[^>]*>([\s\S]*?)<\/gemcp:provenance>/.exec(svg);
+  return match?.[1].replace(/<!\[CDATA\[|\]\]>/g, "");
+}
+
+// Embed the record in formats that can carry it (PNG and SVG); other formats are returned unchanged
+export function embedProvenance(path: string, data: string | Buffer, record: Provenance): string | Buffer {
+  const text = JSON.stringify(record);
+  const ext = extname(path).toLowerCase();
+  if (ext === ".png" && Buffer.isBuffer(data)) return embedInPng(data, text);
+  if (ext === ".svg") return embedInSvg(data.toString(), text);
+  return data;
+}
+
+// Save an asset with its provenance: embedded when asked and the format allows, and in a sidecar
+// (<file>.json, next to the name actually written) unless GEMCP_SIDECARS turns them off
+export async function writeAsset(
+  path: string,
+  data: string | Buffer,
+  record: Provenance,
+  options: { overwrite?: OverwritePolicy; embed?: boolean } = {}
+): Promise<string> {
+  const body = (options.embed ?? PROVENANCE_SETTINGS.embed) ? embedProvenance(path, data, record) : data;
+  const saved = await writeOutput(path, body, options.overwrite);
+  if (PROVENANCE_SETTINGS.sidecars) {
+    await writeOutput(sidecarPath(saved), JSON.stringify({ ...record, output: { path: saved, sha256: sha256(body) } }, null, 2), 'replace');
+  }
+  return saved;
+}
+
+// Provenance of an asset: its sidecar (or the sidecar itself when given), else the embedded record
+export async function readProvenance(path: string): Promise<Provenance> {
+  const absPath = resolve(path);
+  const sidecar = absPath.endsWith(".json") ? absPath : sidecarPath(absPath);
+  try {
+    return JSON.parse(await readFile(sidecar, "utf-8")) as Provenance;
+  } catch (error) {
+    if (sidecar === absPath || (error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Could not read provenance from ${sidecar}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const data = await readFile(absPath);
+  const ext = extname(absPath).toLowerCase();
+  const embedded = ext === ".png" ? readFromPng(data) : ext === ".svg" ? readFromSvg(data.toString("utf-8")) : undefined;
+  if (!embedded) throw new Error(`No provenance found for ${absPath}: there is no ${sidecarPath(absPath)} sidecar and nothing embedded in the file`);
+  return JSON.parse(embedded) as Provenance;
+}
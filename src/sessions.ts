@@ -0,0 +1,90 @@
+// Server-side conversation sessions persisted as one JSON file per session
+import { randomUUID } from "crypto";
+import { readdir, rm } from "fs/promises";
+import { join } from "path";
+import type { Content } from "@google/genai";
+import { DATA_DIR, readJsonFile, serialized, writeJsonFile } from "./store.js";
+
+const SESSIONS_DIR = join(DATA_DIR, "sessions");
+
+// Generation settings fixed when the session starts
+export interface SessionSettings {
+  model: string;
+  instructions?: string;
+  thinkingLevel?: 'low' | 'high';
+  includeThoughts?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  grounding?: boolean;
+  urlContext?: boolean;
+  codeExecution?: boolean;
+}
+
+export interface Session {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  parentId?: string;
+  settings: SessionSettings;
+  // Raw Gemini turns, so model parts keep their thought signatures
+  contents: Content[];
+}
+
+function sessionPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid session id "${id}"`);
+  return join(SESSIONS_DIR, `${id}.json`);
+}
+
+export async function createSession(settings: SessionSettings, contents: Content[] = [], parentId?: string): Promise<Session> {
+  const now = new Date().toISOString();
+  const session: Session = { id: randomUUID(), createdAt: now, updatedAt: now, parentId, settings, contents };
+  await writeJsonFile(sessionPath(session.id), session);
+  return session;
+}
+
+export async function loadSession(id: string): Promise<Session> {
+  const session = await readJsonFile<Session>(sessionPath(id));
+  if (!session) throw new Error(`Unknown session "${id}". Start one with gemini_session_start.`);
+  return session;
+}
+
+// Append to the stored session rather than the caller's copy, which may predate another append.
+// Appends are serialized per session so overlapping messages never drop each other's turns.
+export function appendTurns(session: Session, turns: Content[]): Promise<Session> {
+  return serialized(sessionPath(session.id), async () => {
+    const latest = await loadSession(session.id);
+    const updated = { ...latest, contents: [...latest.contents, ...turns], updatedAt: new Date().toISOString() };
+    await writeJsonFile(sessionPath(session.id), updated);
+    return updated;
+  });
+}
+
+// Copy a session, optionally keeping only its first `turns` turns
+export async function forkSession(id: string, turns?: number): Promise<Session> {
+  const source = await loadSession(id);
+  if (turns !== undefined && turns > source.contents.length) {
+    throw new Error(`Session "${id}" only has ${source.contents.length} turns`);
+  }
+  return createSession(source.settings, source.contents.slice(0, turns ?? source.contents.length), source.id);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await loadSession(id);
+  await rm(sessionPath(id));
+}
+
+export async function listSessions(): Promise<Session[]> {
+  let files: string[];
+  try {
+    files = await readdir(SESSIONS_DIR);
+  } catch {
+    return [];
+  }
+  const sessions = await Promise.all(
+    files.filter(f => f.endsWith(".json")).map(f => readJsonFile<Session>(join(SESSIONS_DIR, f)))
+  );
+  return sessions
+    .filter((s): s is Session => Boolean(s))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,38 @@
+// Local state directory shared by sessions and other persisted data
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+
+export const DATA_DIR = process.env.GEMCP_DATA_DIR ? resolve(process.env.GEMCP_DATA_DIR) : join(homedir(), ".gemcp");
+
+export async function readJsonFile<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Pending updates per key, chained so read-modify-write updates of one file never interleave
+const updates = new Map<string, Promise<unknown>>();
+
+// Run an update after every earlier update with the same key has settled
+export function serialized<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const result = (updates.get(key) ?? Promise.resolve()).catch(() => {}).then(update);
+  updates.set(key, result);
+  result.catch(() => {}).finally(() => {
+    if (updates.get(key) === result) updates.delete(key);
+  });
+  return result;
+}
+
+// Write via a temp file and rename so a crash never leaves a half-written file behind. The temp
+// name is unique per write, so concurrent writers of the same file never share one.
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(value, null, 2));
+  await rename(tmpPath, path);
+}
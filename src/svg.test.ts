@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { processSvg, SvgInvalidError } from "./svg.js";
+
+function sanitize(body: string): { svg: string; changes: string[] } {
+  return processSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">${body}</svg>`, { optimize: false });
+}
+
+describe("processSvg sanitizing", () => {
+  test("removes scripts, foreign objects and event handlers", () => {
+    const { svg, changes } = sanitize('<script>alert(1)</script><foreignObject><div/></foreignObject><rect width="1" height="1" onclick="alert(1)"/>');
+    expect(svg).not.toContain("script");
+    expect(svg).not.toContain("foreignObject");
+    expect(svg).not.toContain("onclick");
+    expect(svg).toContain("<rect");
+    expect(changes).toEqual(["removed <script>", "removed <foreignObject>", "removed onclick handler on <rect>"]);
+  });
+
+  test("keeps fragment and embedded image links but drops script and remote ones", () => {
+    const { svg } = sanitize([
+      '<use href="#a"/>',
+      '<image href="data:image/png;base64,AAAA"/>',
+      '<a href="javascript:alert(1)"><rect width="1" height="1"/></a>',
+      '<image xmlns:xlink="http://www.w3.org/1999/xlink" xlink:href="https://example.com/x.png"/>',
+    ].join(""));
+    expect(svg).toContain('href="#a"');
+    expect(svg).toContain('href="data:image/png;base64,AAAA"');
+    expect(svg).not.toContain("javascript:");
+    expect(svg).not.toContain("example.com");
+  });
+
+  test("drops remote references in attributes and stylesheets", () => {
+    const { svg } = sanitize('<style>@import url(https://example.com/a.css);</style><rect width="1" height="1" fill="url(https://example.com/p.svg#g)"/><rect width="1" height="1" fill="url(#local)"/>');
+    expect(svg).not.toContain("example.com");
+    expect(svg).toContain('fill="url(#local)"');
+  });
+
+  test("removes animations that add handlers or links", () => {
+    const { svg, changes } = sanitize([
+      '<rect width="1" height="1"><set attributeName="onmouseover" to="alert(1)"/></rect>',
+      '<a><animate attributeName="href" values="javascript:alert(1)"/></a>',
+      '<a><set attributeName="xlink:href" to="https://example.com"/></a>',
+      '<a><set attributeName="target" to="javascript:alert(1)"/></a>',
+    ].join(""));
+    expect(svg).not.toContain("<set");
+    expect(svg).not.toContain("<animate");
+    expect(changes).toEqual([
+      "removed <set> animating onmouseover",
+      "removed <animate> animating href",
+      "removed <set> animating xlink:href",
+      'removed <set> setting to="javascript:alert(1)"',
+    ]);
+  });
+
+  test("keeps harmless animations", () => {
+    const { svg, changes } = sanitize('<rect width="1" height="1"><animate attributeName="fill" values="red;blue" dur="1s"/><animateTransform attributeName="transform" type="rotate" from="0 5 5" to="360 5 5"/></rect>');
+    expect(svg).toContain('<animate attributeName="fill" values="red;blue"');
+    expect(svg).toContain("<animateTransform");
+    expect(changes).toEqual([]);
+  });
+
+  test("rejects malformed XML with the parser message", () => {
+    expect(() => processSvg('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><rect></svg>')).toThrow(SvgInvalidError);
+  });
+});
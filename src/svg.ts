@@ -0,0 +1,219 @@
+// SVG post-processing for gemini_svg: extract the root element, validate, sanitize, optimize and rasterize
+import sharp from "sharp";
+import { optimize } from "svgo";
+import type { CustomPlugin, XastElement, XastParent } from "svgo";
+
+export interface ProcessedSvg {
+  svg: string;
+  // Human-readable notes on what sanitizing removed or fixed
+  changes: string[];
+}
+
+// Raised for output that cannot be turned into a usable SVG; the message is fed back to the model
+export class SvgInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SvgInvalidError';
+  }
+}
+
+const DANGEROUS_ELEMENTS = new Set(['script', 'foreignobject', 'iframe', 'embed', 'object', 'handler', 'listener']);
+
+// SMIL elements set attributes at runtime, so they can add handlers and links the checks below never see
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatemotion', 'animatetransform']);
+
+// Only same-document fragments and embedded raster images may be referenced
+const SAFE_HREF = /^(#|data:image\/(png|jpe?g|gif|webp);)/i;
+const EXTERNAL_URL = /url\(\s*['"]?\s*(?!#|data:)/i;
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1).toLowerCase();
+}
+
+// Why an animation element is unsafe: it targets a handler or link, or sets a URL that is not a safe href
+function unsafeAnimation(node: XastElement): string | undefined {
+  const target = node.attributes.attributeName;
+  if (target && (localName(target).startsWith('on') || localName(target) === 'href')) return `animating ${target}`;
+  for (const key of ['to', 'from', 'by', 'values']) {
+    const value = node.attributes[key];
+    if (!value) continue;
+    // values is a ;-separated list; the ; inside data:image/png;base64, is not a separator
+    for (const item of value.split(/;(?!\s*base64,)/)) {
+      const url = item.trim();
+      if (/^[a-z][\w+.-]*:/i.test(url) && !SAFE_HREF.test(url)) return `setting ${key}="${value.slice(0, 60)}"`;
+    }
+  }
+  return undefined;
+}
+
+function sanitizePlugin(changes: string[]): CustomPlugin {
+  return {
+    name: 'gemcpSanitize',
+    fn: () => ({
+      instruction: {
+        enter: (node, parent) => {
+          // <?xml-stylesheet?> and friends can pull in remote resources
+          if (node.name !== 'xml') {
+            removeChild(parent, node);
+            changes.push(`removed <?${node.name}?> instruction`);
+          }
+        },
+      },
+      element: {
+        enter: (node, parent) => {
+          const name = localName(node.name);
+          if (DANGEROUS_ELEMENTS.has(name)) {
+            removeChild(parent, node);
+            changes.push(`removed <${node.name}>`);
+            return;
+          }
+          const unsafe = ANIMATION_ELEMENTS.has(name) ? unsafeAnimation(node) : undefined;
+          if (unsafe) {
+            removeChild(parent, node);
+            changes.push(`removed <${node.name}> ${unsafe}`);
+            return;
+          }
+          if (name === 'style' && node.children.some(c => (c.type === 'text' || c.type === 'cdata') && (/@import/i.test(c.value) || EXTERNAL_URL.test(c.value)))) {
+            removeChild(parent, node);
+            changes.push('removed <style> with remote references');
+            return;
+          }
+          for (const [attr, value] of Object.entries(node.attributes)) {
+            const attrName = localName(attr);
+            if (attrName.startsWith('on')) {
+              delete node.attributes[attr];
+              changes.push(`removed ${attr} handler on <${node.name}>`);
+            } else if (attrName === 'href' && !SAFE_HREF.test(value.trim())) {
+              delete node.attributes[attr];
+              changes.push(`removed ${attr}="${value.slice(0, 60)}" on <${node.name}>`);
+            } else if (/javascript:/i.test(value) || EXTERNAL_URL.test(value)) {
+              delete node.attributes[attr];
+              changes.push(`removed ${attr} with a remote or script reference on <${node.name}>`);
+            }
+          }
+        },
+      },
+    }),
+  };
+}
+
+// Give the root a viewBox from its width/height so it scales; without either it cannot be sized
+function viewBoxPlugin(changes: string[]): CustomPlugin {
+  return {
+    name: 'gemcpViewBox',
+    fn: () => ({
+      element: {
+        enter: (node, parent) => {
+          if (parent.type !== 'root' || node.attributes.viewBox) return;
+          const width = parseFloat(node.attributes.width);
+          const height = parseFloat(node.attributes.height);
+          if (!(width > 0 && height > 0) || /%/.test(node.attributes.width + node.attributes.height)) {
+            throw new SvgInvalidError('The root <svg> has no viewBox (and no numeric width/height to derive one from).');
+          }
+          node.attributes.viewBox = `0 0 ${width} ${height}`;
+          changes.push(`added viewBox="0 0 ${width} ${height}"`);
+        },
+      },
+    }),
+  };
+}
+
+function removeChild(parent: XastParent, node: XastParent['children'][number]): void {
+  parent.children = parent.children.filter(c => c !== node);
+}
+
+// Cut the single root <svg> element out of surrounding prose, fences or XML prolog
+export function extractSvg(text: string): string {
+  const start = text.search(/<svg[\s>]/i);
+  const end = text.toLowerCase().lastIndexOf('</svg>');
+  if (start === -1) throw new SvgInvalidError('The response contains no <svg> element.');
+  if (end === -1 || end < start) throw new SvgInvalidError('The <svg> element is never closed.');
+  return text.slice(start, end + '</svg>'.length);
+}
+
+// Parse (strictly), sanitize and optionally optimize. Throws SvgInvalidError with the parser message.
+export function processSvg(text: string, options: { optimize?: boolean } = {}): ProcessedSvg {
+  const changes: string[] = [];
+  const source = extractSvg(text);
+  let root: XastElement | undefined;
+
+  let output: string;
+  try {
+    output = optimize(source, {
+      plugins: [
+        sanitizePlugin(changes),
+        viewBoxPlugin(changes),
+        ...(options.optimize === false ? [] : ['preset-default' as const]),
+        {
+          name: 'gemcpRootCheck',
+          fn: (ast) => {
+            const elements = ast.children.filter((c): c is XastElement => c.type === 'element');
+            if (elements.length !== 1 || localName(elements[0].name) !== 'svg') {
+              throw new SvgInvalidError('The document must contain exactly one root <svg> element.');
+            }
+            root = elements[0];
+          },
+        },
+      ],
+      js2svg: { pretty: options.optimize === false, indent: 2 },
+    }).data;
+  } catch (error) {
+    if (error instanceof SvgInvalidError) throw error;
+    // svgo reports parse errors with line and column, which is what the model needs to fix them
+    throw new SvgInvalidError(`The SVG is not well-formed XML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!root?.attributes.xmlns) {
+    output = output.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
+    changes.push('added xmlns');
+  }
+  return { svg: output, changes };
+}
+
+export interface IconConstraints {
+  grid: number;
+  strokeWidth?: number;
+  // Allowed colors; none, currentColor and url(#...) references are always allowed
+  palette?: string[];
+  style?: string;
+}
+
+function normalizeColor(color: string): string {
+  const value = color.trim().toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(value);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : value;
+}
+
+// Check an icon against the set's shared constraints; returns what is wrong, if anything
+export function iconProblems(svg: string, constraints: IconConstraints): string[] {
+  const problems: string[] = [];
+  const viewBox = /<svg\b[^>]*\sviewBox=["']([^"']+)["']/i.exec(svg)?.[1].trim().split(/[\s,]+/).map(Number);
+  if (!viewBox || viewBox.join(' ') !== `0 0 ${constraints.grid} ${constraints.grid}`) {
+    problems.push(`the viewBox must be "0 0 ${constraints.grid} ${constraints.grid}"${viewBox ? `, not "${viewBox.join(' ')}"` : ''}`);
+  }
+
+  // Presentation attributes and inline style declarations alike
+  const declarations = [...svg.matchAll(/([\w-]+)\s*(?:=\s*["']|:\s*)([^"';>]+)/g)].map(m => [m[1].toLowerCase(), m[2].trim()]);
+
+  if (constraints.strokeWidth !== undefined) {
+    const widths = new Set(declarations.filter(([k]) => k === 'stroke-width').map(([, v]) => parseFloat(v)).filter(w => w !== constraints.strokeWidth && w !== 0));
+    if (widths.size > 0) problems.push(`every stroke-width must be ${constraints.strokeWidth}, found ${[...widths].join(', ')}`);
+  }
+
+  if (constraints.palette?.length) {
+    const allowed = new Set([...constraints.palette.map(normalizeColor), 'none', 'currentcolor', 'transparent']);
+    const colors = new Set(declarations
+      .filter(([k]) => ['fill', 'stroke', 'stop-color', 'color'].includes(k))
+      .map(([, v]) => normalizeColor(v))
+      .filter(v => !allowed.has(v) && !v.startsWith('url(#')));
+    if (colors.size > 0) problems.push(`only these colors may be used: ${constraints.palette.join(', ')}; found ${[...colors].join(', ')}`);
+  }
+  return problems;
+}
+
+// PNG preview of an SVG, scaled so the longer side is `size` pixels
+export async function rasterizeSvg(svg: string, size = 512): Promise<Buffer> {
+  return sharp(Buffer.from(svg), { density: 300 })
+    .resize(size, size, { fit: 'inside' })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,6 @@
+// Preloaded by bun test: point the data directory at a scratch folder so tests never touch ~/.gemcp
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+process.env.GEMCP_DATA_DIR = mkdtempSync(join(tmpdir(), "gemcp-test-"));
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { GenerateContentResponse } from "@google/genai";
+import { parseTextResponse } from "./utils.js";
+
+// A stubbed SDK response, shaped like a grounded answer that also ran code
+function stubResponse(): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{
+      index: 0,
+      finishReason: "STOP",
+      content: {
+        role: "model",
+        parts: [
+          { text: "Let me work that out.", thought: true },
+          { text: "Paris has about 2.1 million people. " },
+          { executableCode: { language: "PYTHON", code: "print(2102650 / 1e6)" } },
+          { codeExecutionResult: { outcome: "OUTCOME_OK", output: "2.10265\n" } },
+          { codeExecutionResult: { outcome: "OUTCOME_FAILED", output: "Traceback" } },
+          { text: "That is roughly 2.1 million." },
+        ],
+      },
+      groundingMetadata: {
+        webSearchQueries: ["paris population"],
+        groundingChunks: [
+          { web: { uri: "https://insee.fr/paris", title: "INSEE" } },
+          { web: { uri: "https://en.wikipedia.org/wiki/Paris", title: "Paris - Wikipedia" } },
+          { web: { uri: "https://insee.fr/paris", title: "INSEE" } },
+          { retrievedContext: { uri: "gs://docs/paris.pdf" } },
+        ],
+        groundingSupports: [
+          { segment: { startIndex: 0, endIndex: 36, text: "Paris has about 2.1 million people." }, groundingChunkIndices: [0, 1] },
+          { segment: { startIndex: 37, endIndex: 65, text: "That is roughly 2.1 million." }, groundingChunkIndices: [2, 3] },
+        ],
+      },
+    }],
+  });
+}
+
+describe("parseTextResponse", () => {
+  test("numbers each distinct source once, in citation order", () => {
+    const result = parseTextResponse(stubResponse());
+    expect(result.citations).toEqual([
+      { index: 1, title: "INSEE", uri: "https://insee.fr/paris" },
+      { index: 2, title: "Paris - Wikipedia", uri: "https://en.wikipedia.org/wiki/Paris" },
+      { index: 3, title: undefined, uri: "gs://docs/paris.pdf" },
+    ]);
+    expect(result.searchQueries).toEqual(["paris population"]);
+  });
+
+  test("pairs executed code with its output, labeled by language and outcome", () => {
+    const result = parseTextResponse(stubResponse());
+    expect(result.codeExecutions).toEqual([
+      { language: "PYTHON", code: "print(2102650 / 1e6)", outcome: "OUTCOME_OK", output: "2.10265\n" },
+      // A result with no code before it still gets its own block
+      { code: "", outcome: "OUTCOME_FAILED", output: "Traceback" },
+    ]);
+  });
+
+  test("keeps answer text and reasoning apart", () => {
+    const result = parseTextResponse(stubResponse());
+    expect(result.content).toBe("Paris has about 2.1 million people. That is roughly 2.1 million.");
+    expect(result.reasoning).toBe("Let me work that out.");
+    expect(result.finishReason).toBe("STOP");
+    expect(result.candidates).toBeUndefined();
+  });
+
+  test("returns no citations or code blocks for a plain answer", () => {
+    const response = Object.assign(new GenerateContentResponse(), {
+      candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] } }],
+    });
+    const result = parseTextResponse(response);
+    expect(result.content).toBe("Hello");
+    expect(result.citations).toBeUndefined();
+    expect(result.codeExecutions).toBeUndefined();
+  });
+});
@@ -1,54 +1,151 @@
 import {
-  GoogleGenAI,
   RawReferenceImage,
   MaskReferenceImage,
   ThinkingLevel,
   EditMode,
+  FunctionCallingConfigMode,
+  HarmBlockThreshold,
+  HarmCategory,
   MaskReferenceMode,
+  PersonGeneration,
+  FileState,
+  GenerateContentResponse,
+  createPartFromUri,
 } from "@google/genai";
-
-// Strip whitespace/newlines from API key (common issue with env vars)
-function cleanApiKey(key: string): string {
-  return key.trim();
-}
+import { readFile } from "fs/promises";
+import { basename } from "path";
+import Ajv from "ajv";
+import type { ErrorObject, ValidateFunction } from "ajv";
+import { getModelInfo, resolveModel } from "./models.js";
+import type { ModelRole } from "./models.js";
+import { GeminiError, assertImagesOk, assertResponseOk, backendFor, getClient, isUsableCandidate, withRetry } from "./client.js";
+import { iconProblems, processSvg, SvgInvalidError } from "./svg.js";
+import { cachedGenerate } from "./cache.js";
+import { GENERATION_DEFAULTS, brandInstructions } from "./config.js";
+import type { CacheOverride } from "./cache.js";
+import type { IconConstraints } from "./svg.js";
 import type {
+  GoogleGenAI,
+  GenerateContentResponseUsageMetadata,
+  Candidate,
+  Content,
+  Part,
+  Tool,
   GenerateContentConfig,
   ImageConfig,
+  GenerateImagesConfig,
   UpscaleImageConfig,
   EditImageConfig,
   Image,
+  InlinedRequest,
   MaskReferenceConfig,
+  SafetyRating,
+  SafetySetting,
   ThinkingConfig,
 } from "@google/genai";
 
+// A local file to send alongside a prompt (PDF, audio, video, image, text)
+export interface Attachment {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
 // Result types for our wrapper functions
+export interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+  thoughtTokens?: number;
+  totalTokens: number;
+  // Images billed per image (Imagen), which report no token counts
+  images?: number;
+}
+
+export interface CodeExecution {
+  language?: string;
+  code: string;
+  outcome?: string;
+  output?: string;
+}
+
+export interface Citation {
+  index: number;
+  title?: string;
+  uri: string;
+}
+
+export interface SafetyRatingInfo {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+// One of several candidates, when more than one was requested
+export interface CandidateResult {
+  index: number;
+  content: string;
+  reasoning?: string;
+  finishReason?: string;
+  safetyRatings?: SafetyRatingInfo[];
+}
+
+// A function the caller declares for the model to call (gemini_messages tools)
+export interface FunctionSpec {
+  name: string;
+  description?: string;
+  // JSON Schema of the arguments
+  parameters?: Record<string, unknown>;
+}
+
+// A call the model made to a declared function, for the caller to run
+export interface FunctionCallInfo {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Gemini 3 rejects the follow-up request unless this is sent back with the call
+  thoughtSignature?: string;
+}
+
 export interface GeminiResult {
+  model: string;
   content: string;
   reasoning?: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  data?: unknown;
+  codeExecutions?: CodeExecution[];
+  // Calls to caller-declared functions; the model waits for their results
+  functionCalls?: FunctionCallInfo[];
+  citations?: Citation[];
+  searchQueries?: string[];
+  urlsRetrieved?: Array<{ url: string; status?: string }>;
+  // The model turn exactly as returned, thought signatures included
+  modelContent?: Content;
+  // Why the model stopped (STOP, MAX_TOKENS, ...) and how the answer was rated
+  finishReason?: string;
+  safetyRatings?: SafetyRatingInfo[];
+  // Every candidate, in order, when more than one was requested; content above is the first usable one
+  candidates?: CandidateResult[];
+  usage?: Usage;
+  // Served from the response cache; no tokens were spent
+  cached?: boolean;
 }
 
 export interface GeminiImageResult {
+  model: string;
   text?: string;
   images: Array<{ mimeType: string; data: string }>;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  // Generation parameters that were actually sent, keyed by tool argument name
+  applied?: Record<string, string | number>;
+  usage?: Usage;
+  cached?: boolean;
 }
 
 export interface GeminiSvgResult {
+  model: string;
   svg: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  // What sanitizing removed or fixed
+  changes?: string[];
+  usage?: Usage;
+  cached?: boolean;
 }
 
 export interface SegmentationMask {
@@ -58,179 +155,768 @@ export interface SegmentationMask {
 }
 
 export interface GeminiSegmentResult {
+  model: string;
   masks: SegmentationMask[];
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: Usage;
+  cached?: boolean;
 }
 
-// Text generation
-export async function callGemini(
-  apiKey: string,
-  prompt: string,
-  options: {
-    model?: string;
-    instructions?: string;
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-    thinkingLevel?: 'low' | 'high';
-    includeThoughts?: boolean;
-  } = {}
-): Promise<GeminiResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
-  const model = options.model || 'gemini-3-pro-preview';
+export interface DetectedObject {
+  box_2d: [number, number, number, number];
+  label: string;
+}
+
+export interface GeminiDetectResult {
+  model: string;
+  objects: DetectedObject[];
+  usage?: Usage;
+  cached?: boolean;
+}
 
+// Partial output reported while a streamed call runs
+export interface StreamProgress {
+  kind: 'text' | 'thought' | 'image';
+  text: string;
+}
+
+// Streaming controls: progress callback and cancellation of the upstream request
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: StreamProgress) => void;
+}
+
+export type SafetyCategory = 'harassment' | 'hate_speech' | 'sexually_explicit' | 'dangerous_content' | 'civic_integrity';
+export type SafetyThreshold = 'block_none' | 'block_only_high' | 'block_medium_and_above' | 'block_low_and_above' | 'off';
+
+const SAFETY_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hate_speech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexually_explicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerous_content: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+  civic_integrity: HarmCategory.HARM_CATEGORY_CIVIC_INTEGRITY,
+};
+
+const SAFETY_THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  block_none: HarmBlockThreshold.BLOCK_NONE,
+  block_only_high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  block_medium_and_above: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  block_low_and_above: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+  off: HarmBlockThreshold.OFF,
+};
+
+// Options shared by the text generation tools
+export interface TextOptions extends StreamOptions {
+  model?: string;
+  instructions?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+  stopSequences?: string[];
+  candidateCount?: number;
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+  thinkingLevel?: 'low' | 'high';
+  // Token budget for models that take one instead of a level: 0 turns thinking off, -1 lets the model decide
+  thinkingBudget?: number;
+  includeThoughts?: boolean;
+  responseSchema?: Record<string, unknown>;
+  attachments?: Attachment[];
+  grounding?: boolean;
+  urlContext?: boolean;
+  codeExecution?: boolean;
+  functions?: FunctionSpec[];
+  // auto: the model decides, any: it must call a function, none: it must answer in text
+  functionCalling?: 'auto' | 'any' | 'none';
+  cache?: CacheOverride;
+}
+
+const FUNCTION_CALLING_MODES: Record<NonNullable<TextOptions['functionCalling']>, FunctionCallingConfigMode> = {
+  auto: FunctionCallingConfigMode.AUTO,
+  any: FunctionCallingConfigMode.ANY,
+  none: FunctionCallingConfigMode.NONE,
+};
+
+function buildTextConfig(options: TextOptions, systemInstruction?: string): GenerateContentConfig {
   const config: GenerateContentConfig = {
-    systemInstruction: options.instructions,
+    systemInstruction,
     maxOutputTokens: options.maxTokens,
     temperature: options.temperature,
     topP: options.topP,
+    presencePenalty: options.presencePenalty,
+    frequencyPenalty: options.frequencyPenalty,
+    seed: options.seed,
+    stopSequences: options.stopSequences?.length ? options.stopSequences : undefined,
+    candidateCount: options.candidateCount,
   };
 
+  const safetySettings: SafetySetting[] = Object.entries(options.safetySettings || {})
+    .filter(([, threshold]) => threshold !== undefined)
+    .map(([category, threshold]) => ({
+      category: SAFETY_CATEGORIES[category as SafetyCategory],
+      threshold: SAFETY_THRESHOLDS[threshold],
+    }));
+  if (safetySettings.length > 0) config.safetySettings = safetySettings;
+
   // Add thinking config if provided
-  if (options.thinkingLevel || options.includeThoughts) {
+  if (options.thinkingLevel && options.thinkingBudget !== undefined) {
+    throw new Error('Pass thinking_level or thinking_budget, not both. Gemini 3 models take a level, Gemini 2.5 models a token budget.');
+  }
+  if (options.thinkingLevel || options.thinkingBudget !== undefined || options.includeThoughts) {
     const thinkingConfig: ThinkingConfig = {};
     if (options.thinkingLevel) {
       thinkingConfig.thinkingLevel = options.thinkingLevel === 'low' ? ThinkingLevel.LOW : ThinkingLevel.HIGH;
     }
+    if (options.thinkingBudget !== undefined) thinkingConfig.thinkingBudget = options.thinkingBudget;
     if (options.includeThoughts !== undefined) {
       thinkingConfig.includeThoughts = options.includeThoughts;
     }
     config.thinkingConfig = thinkingConfig;
   }
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config
+  // Opt-in built-in tools
+  const tools: Tool[] = [];
+  if (options.grounding) tools.push({ googleSearch: {} });
+  if (options.urlContext) tools.push({ urlContext: {} });
+  if (options.codeExecution) tools.push({ codeExecution: {} });
+  if (options.functions?.length) {
+    tools.push({
+      functionDeclarations: options.functions.map(f => ({ name: f.name, description: f.description, parametersJsonSchema: f.parameters })),
+    });
+  }
+  if (tools.length > 0) config.tools = tools;
+
+  if (options.functionCalling) {
+    if (!options.functions?.length) throw new Error('tool_choice needs tools to choose from');
+    config.toolConfig = { functionCallingConfig: { mode: FUNCTION_CALLING_MODES[options.functionCalling] } };
+  }
+
+  return config;
+}
+
+// Text generation
+export async function callGemini(
+  prompt: string,
+  options: TextOptions = {}
+): Promise<GeminiResult> {
+  const ai = getClient('text');
+  const model = resolveModel('text', options.model);
+
+  const parts = await attachmentParts(ai, options.attachments || [], { inlineBytes: 0 }, options.signal);
+  parts.push({ text: prompt });
+
+  const config = buildTextConfig(options, options.instructions);
+  return generateText(ai, model, [{ role: 'user', parts }], config, options);
+}
+
+export type ChatMessage = {
+  role: 'user' | 'assistant' | 'system' | 'function_response';
+  content?: string;
+  attachments?: Attachment[];
+  // On assistant messages: the calls that turn made, echoed back from an earlier result
+  functionCalls?: FunctionCallInfo[];
+  // On function_response messages: which call this answers, and its result
+  name?: string;
+  id?: string;
+  response?: unknown;
+};
+
+// Messages-based generation
+export async function callGeminiWithMessages(
+  messages: ChatMessage[],
+  options: TextOptions = {}
+): Promise<GeminiResult> {
+  const ai = getClient('text');
+  const model = resolveModel('text', options.model);
+
+  const { contents, systemInstruction } = await messagesToContents(ai, messages, options);
+  const config = buildTextConfig(options, options.instructions || systemInstruction);
+  return generateText(ai, model, contents, config, options);
+}
+
+// Continue a stored conversation. History is raw Gemini content, so thought signatures from
+// earlier model turns are sent back as-is. Returns the new user and model turns for storage.
+export async function callGeminiSession(
+  history: Content[],
+  message: string,
+  options: TextOptions = {}
+): Promise<GeminiResult & { turns: Content[] }> {
+  const ai = getClient('text');
+  const model = resolveModel('text', options.model);
+
+  const { contents } = await messagesToContents(ai, [{ role: 'user', content: message }], options);
+  const config = buildTextConfig(options, options.instructions);
+  const result = await generateText(ai, model, [...history, ...contents], config, options);
+  return { ...result, turns: [...contents, result.modelContent || { role: 'model', parts: [{ text: result.content }] }] };
+}
+
+export interface TextBatchJob {
+  name: string;
+  model: string;
+  state: string;
+  error?: string;
+  // Present once the job has finished, in request order
+  results?: Array<GeminiResult | { error: string }>;
+}
+
+const FINISHED_JOB_STATES = new Set(['JOB_STATE_SUCCEEDED', 'JOB_STATE_FAILED', 'JOB_STATE_CANCELLED', 'JOB_STATE_EXPIRED', 'JOB_STATE_PARTIALLY_SUCCEEDED']);
+
+// Submit prompts as one asynchronous Gemini Batch API job (billed at the batch discount, done
+// within 24 hours). Every request must use the same model. Response schemas are sent as JSON mode
+// but cannot be repaired after the fact.
+export async function submitTextBatch(
+  requests: Array<{ prompt: string; options: TextOptions }>,
+  displayName: string
+): Promise<TextBatchJob> {
+  // Jobs belong to the key that created them, so batches always use the first API key
+  const ai = getClient('text', { primary: true });
+  if (ai.vertexai) throw new Error('mode "batch_api" needs the Gemini API backend for text; Vertex AI batch prediction is not supported. Set GEMCP_TEXT_BACKEND=gemini, or use mode "local".');
+  const models = new Set(requests.map(r => resolveModel('text', r.options.model)));
+  if (models.size !== 1) throw new Error(`A Batch API job runs a single model, but these requests use ${[...models].join(', ')}`);
+  const [model] = models;
+
+  const inlinedRequests: InlinedRequest[] = [];
+  for (const { prompt, options } of requests) {
+    const parts = await attachmentParts(ai, options.attachments || [], { inlineBytes: 0 }, options.signal);
+    parts.push({ text: prompt });
+    const config = buildTextConfig(options, options.instructions);
+    if (options.responseSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseJsonSchema = options.responseSchema;
+    }
+    inlinedRequests.push({ contents: [{ role: 'user', parts }], config });
+  }
+
+  const job = await withRetry('text', (abortSignal) => ai.batches.create({
+    model, src: inlinedRequests, config: { displayName, abortSignal },
+  }), requests[0]?.options.signal, ai);
+  if (!job.name) throw new Error('The Batch API did not return a job name');
+  return { name: job.name, model, state: job.state || 'JOB_STATE_PENDING' };
+}
+
+// Poll a Batch API job; results are parsed like regular text responses once it has finished
+export async function getTextBatch(name: string, model: string, signal?: AbortSignal): Promise<TextBatchJob> {
+  const ai = getClient('text', { primary: true });
+  const job = await withRetry('text', (abortSignal) => ai.batches.get({ name, config: { abortSignal } }), signal, ai);
+  const state = job.state || 'JOB_STATE_UNSPECIFIED';
+  if (!FINISHED_JOB_STATES.has(state)) return { name, model, state };
+
+  const results = (job.dest?.inlinedResponses || []).map((entry) => {
+    if (entry.error || !entry.response) return { error: entry.error?.message || 'No response' };
+    try {
+      assertResponseOk(entry.response);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+    return { ...parseTextResponse(entry.response), model, usage: toUsage(entry.response.usageMetadata) };
   });
+  return { name, model, state, error: job.error?.message, results };
+}
+
+// Map chat roles onto Gemini content (assistant -> model, system -> system instruction)
+async function messagesToContents(
+  ai: GoogleGenAI,
+  messages: ChatMessage[],
+  options: TextOptions
+): Promise<{ contents: Content[]; systemInstruction?: string }> {
+  const systemMessage = messages.find(m => m.role === 'system');
+  if (systemMessage?.attachments?.length) {
+    throw new Error('Attachments are not supported on system messages - attach them to a user message instead');
+  }
+
+  // Top-level attachments go with the last user message
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  if (options.attachments?.length && lastUserIndex === -1) {
+    throw new Error('attachments require at least one user message');
+  }
+
+  const inlineState = { inlineBytes: 0 };
+  const contents: Content[] = [];
+  for (const [i, m] of messages.entries()) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'function_response') {
+      if (!m.name) throw new Error(`Message ${i + 1}: function_response messages need the name of the function that was called`);
+      if (m.attachments?.length) throw new Error(`Message ${i + 1}: attachments are not supported on function_response messages`);
+      // Gemini expects an object; other results are wrapped
+      const response = m.response && typeof m.response === 'object' && !Array.isArray(m.response)
+        ? m.response as Record<string, unknown>
+        : { output: m.response ?? m.content ?? null };
+      const part: Part = { functionResponse: { id: m.id, name: m.name, response } };
+      // Responses to parallel calls go back together in one turn
+      const prev = contents[contents.length - 1];
+      if (prev?.role === 'user' && prev.parts?.every(p => p.functionResponse)) prev.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+      continue;
+    }
+
+    const attachments = [...(m.attachments || []), ...(i === lastUserIndex ? options.attachments || [] : [])];
+    const parts = await attachmentParts(ai, attachments, inlineState, options.signal);
+    if (m.content || (parts.length === 0 && !m.functionCalls?.length)) parts.push({ text: m.content || '' });
+    if (m.functionCalls?.length) {
+      if (m.role !== 'assistant') throw new Error(`Message ${i + 1}: only assistant messages can carry function_calls`);
+      for (const call of m.functionCalls) {
+        parts.push({ functionCall: { id: call.id, name: call.name, args: call.args }, thoughtSignature: call.thoughtSignature });
+      }
+    }
+    contents.push({ role: m.role === 'assistant' ? 'model' : 'user', parts });
+  }
+
+  return { contents, systemInstruction: systemMessage?.content };
+}
+
+function safetyRatingsOf(ratings?: SafetyRating[]): SafetyRatingInfo[] | undefined {
+  const mapped = ratings
+    ?.filter(r => r.category)
+    .map(r => ({ category: r.category!, probability: r.probability || 'PROBABILITY_UNSPECIFIED', ...(r.blocked ? { blocked: true } : {}) }));
+  return mapped?.length ? mapped : undefined;
+}
 
+// Text, reasoning and executed code of one candidate
+function candidateParts(candidate?: Candidate): { content: string; reasoning?: string; codeExecutions: CodeExecution[]; functionCalls: FunctionCallInfo[] } {
   let content = '';
   let reasoning: string | undefined;
+  const codeExecutions: CodeExecution[] = [];
+  const functionCalls: FunctionCallInfo[] = [];
+
+  for (const part of candidate?.content?.parts || []) {
+    if (part.thought) {
+      // Thought/reasoning content
+      if (part.text) reasoning = (reasoning || '') + part.text;
+    } else if (part.functionCall?.name) {
+      functionCalls.push({
+        id: part.functionCall.id, name: part.functionCall.name, args: part.functionCall.args || {}, thoughtSignature: part.thoughtSignature,
+      });
+    } else if (part.executableCode) {
+      codeExecutions.push({ language: part.executableCode.language, code: part.executableCode.code || '' });
+    } else if (part.codeExecutionResult) {
+      // Results follow the code that produced them
+      let last = codeExecutions[codeExecutions.length - 1];
+      if (!last || last.outcome !== undefined) codeExecutions.push(last = { code: '' });
+      last.outcome = part.codeExecutionResult.outcome;
+      last.output = part.codeExecutionResult.output;
+    } else if (part.text) {
+      content += part.text;
+    }
+  }
+  return { content, reasoning, codeExecutions, functionCalls };
+}
 
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.thought) {
-        // Thought/reasoning content
-        if (part.text) reasoning = (reasoning || '') + part.text;
-      } else if (part.text) {
-        content += part.text;
-      }
+// Extract text, reasoning, executed code and grounding sources from the first usable candidate,
+// and list every candidate when there are several. Pure so it can be exercised against stubbed SDK responses.
+export function parseTextResponse(response: GenerateContentResponse): Omit<GeminiResult, 'model' | 'data' | 'usage'> {
+  const all = response.candidates || [];
+  const candidate = all.find(isUsableCandidate) ?? all[0];
+  const { content, reasoning, codeExecutions, functionCalls } = candidateParts(candidate);
+
+  // Number each distinct source once, in the order the model cited them
+  const citations: Citation[] = [];
+  for (const chunk of candidate?.groundingMetadata?.groundingChunks || []) {
+    const source = chunk.web || chunk.retrievedContext;
+    if (source?.uri && !citations.some(c => c.uri === source.uri)) {
+      citations.push({ index: citations.length + 1, title: source.title, uri: source.uri });
     }
   }
 
+  const searchQueries = candidate?.groundingMetadata?.webSearchQueries;
+  const urlsRetrieved = candidate?.urlContextMetadata?.urlMetadata
+    ?.filter(m => m.retrievedUrl)
+    .map(m => ({ url: m.retrievedUrl!, status: m.urlRetrievalStatus }));
+
   return {
     content,
     reasoning,
-    usage: response.usageMetadata ? {
-      promptTokens: response.usageMetadata.promptTokenCount || 0,
-      completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata.totalTokenCount || 0
-    } : undefined
+    codeExecutions: codeExecutions.length > 0 ? codeExecutions : undefined,
+    functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+    citations: citations.length > 0 ? citations : undefined,
+    searchQueries: searchQueries?.length ? searchQueries : undefined,
+    urlsRetrieved: urlsRetrieved?.length ? urlsRetrieved : undefined,
+    modelContent: candidate?.content,
+    finishReason: candidate?.finishReason,
+    safetyRatings: safetyRatingsOf(candidate?.safetyRatings),
+    candidates: all.length > 1
+      ? all.map((c, i) => {
+        const parsed = candidateParts(c);
+        return { index: c.index ?? i, content: parsed.content, reasoning: parsed.reasoning, finishReason: c.finishReason, safetyRatings: safetyRatingsOf(c.safetyRatings) };
+      })
+      : undefined,
   };
 }
 
-// Messages-based generation
-export async function callGeminiWithMessages(
-  apiKey: string,
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
-  options: {
-    model?: string;
-    instructions?: string;
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-    thinkingLevel?: 'low' | 'high';
-    includeThoughts?: boolean;
-  } = {}
-): Promise<GeminiResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
-  const model = options.model || 'gemini-3-pro-preview';
+// Requests over ~20MB are rejected, so anything beyond this inline budget goes through the Files API
+const MAX_INLINE_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+// Turn attachments into content parts: inline while the request stays small, uploaded otherwise.
+// The inline budget is shared across all messages of one request.
+async function attachmentParts(
+  ai: GoogleGenAI,
+  attachments: Attachment[],
+  state: { inlineBytes: number },
+  signal?: AbortSignal
+): Promise<Part[]> {
+  const parts: Part[] = [];
+  for (const attachment of attachments) {
+    if (state.inlineBytes + attachment.size <= MAX_INLINE_ATTACHMENT_BYTES) {
+      state.inlineBytes += attachment.size;
+      const data = await readFile(attachment.path);
+      parts.push({ inlineData: { data: data.toString('base64'), mimeType: attachment.mimeType } });
+    } else {
+      parts.push(await uploadAttachment(ai, attachment, signal));
+    }
+  }
+  return parts;
+}
 
-  const systemMessage = messages.find(m => m.role === 'system');
-  const chatMessages = messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({
-      role: m.role === 'assistant' ? 'model' as const : 'user' as const,
-      parts: [{ text: m.content }]
-    }));
+async function uploadAttachment(ai: GoogleGenAI, attachment: Attachment, signal?: AbortSignal): Promise<Part> {
+  let file = await withRetry('upload', (abortSignal) => ai.files.upload({
+    file: attachment.path,
+    config: { mimeType: attachment.mimeType, displayName: basename(attachment.path), abortSignal }
+  }), signal, ai);
+
+  // Video and long audio are processed asynchronously and can't be referenced until ACTIVE
+  while (file.state === FileState.PROCESSING && file.name) {
+    await new Promise(r => setTimeout(r, 2000));
+    signal?.throwIfAborted();
+    const name = file.name;
+    file = await withRetry('upload', (abortSignal) => ai.files.get({ name, config: { abortSignal } }), signal, ai);
+  }
+  if (file.state === FileState.FAILED || !file.uri) {
+    throw new Error(`Files API could not process ${attachment.path}${file.error?.message ? `: ${file.error.message}` : ''}`);
+  }
 
-  const config: GenerateContentConfig = {
-    systemInstruction: options.instructions || systemMessage?.content,
-    maxOutputTokens: options.maxTokens,
-    temperature: options.temperature,
-    topP: options.topP,
-  };
+  return createPartFromUri(file.uri, file.mimeType || attachment.mimeType);
+}
 
-  // Add thinking config if provided
-  if (options.thinkingLevel || options.includeThoughts) {
-    const thinkingConfig: ThinkingConfig = {};
-    if (options.thinkingLevel) {
-      thinkingConfig.thinkingLevel = options.thinkingLevel === 'low' ? ThinkingLevel.LOW : ThinkingLevel.HIGH;
-    }
-    if (options.includeThoughts !== undefined) {
-      thinkingConfig.includeThoughts = options.includeThoughts;
+// How many times a reply that fails response_schema validation is sent back for repair
+const MAX_SCHEMA_REPAIRS = 2;
+
+// How many times an SVG that fails to parse or validate is sent back for repair
+const MAX_SVG_REPAIRS = 2;
+
+// Shared generate + parse for the text tools. With a response schema the model runs in JSON
+// mode and the reply is validated locally, re-prompting with the validation errors on failure.
+async function generateText(
+  ai: GoogleGenAI,
+  model: string,
+  contents: Content[],
+  config: GenerateContentConfig,
+  options: TextOptions,
+  role: ModelRole = 'text'
+): Promise<GeminiResult> {
+  const { responseSchema } = options;
+  let validate: ValidateFunction | undefined;
+  if (responseSchema) {
+    try {
+      validate = new Ajv({ allErrors: true, strict: false }).compile(responseSchema);
+    } catch (error) {
+      throw new Error(`Invalid response_schema: ${error instanceof Error ? error.message : String(error)}`);
     }
-    config.thinkingConfig = thinkingConfig;
+    config.responseMimeType = 'application/json';
+    config.responseJsonSchema = responseSchema;
+  }
+  // Schema repairs continue a single answer, so there is only one to validate
+  if (responseSchema && (options.candidateCount ?? 1) > 1) {
+    throw new Error('candidate_count above 1 cannot be combined with response_schema');
   }
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: chatMessages,
-    config
-  });
+  let usage: Usage | undefined;
+  // Cached only when every request of the call (repairs included) was a hit
+  let cached = true;
+  for (let attempt = 0; ; attempt++) {
+    // Files uploaded through `ai` are only visible to its key, so requests that use them stay on it
+    const pinned = contents.some(c => c.parts?.some(p => p.fileData)) ? ai : undefined;
+    const result = await cachedGenerate(role, { model, contents, config }, options.cache, () => withRetry(role, async (signal, client) => {
+      const stream = await client.models.generateContentStream({ model, contents, config: { ...config, abortSignal: signal } });
+      const merged = await collectStream(stream, { ...options, signal });
+      assertResponseOk(merged);
+      return merged;
+    }, options.signal, pinned)).catch((error) => { throw withUsage(error, model, usage); });
+    const { response } = result;
+    cached &&= result.cached;
+
+    const parsed = parseTextResponse(response);
+    const { content } = parsed;
+
+    usage = addUsage(usage, toUsage(response.usageMetadata));
+
+    // A function call is not the answer yet; the schema applies once the model replies in text
+    if (!validate || parsed.functionCalls) return { ...parsed, model, usage, cached };
+
+    let problem: string;
+    try {
+      const data: unknown = JSON.parse(stripCodeFences(content, ['json']));
+      if (validate(data)) return { ...parsed, model, data, usage, cached };
+      problem = `it does not match the schema: ${ajvErrorsText(validate.errors)}`;
+    } catch (error) {
+      problem = `it is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
 
-  let content = '';
-  let reasoning: string | undefined;
+    if (attempt >= MAX_SCHEMA_REPAIRS) {
+      throw new GeminiError('invalid_response', `the reply failed response_schema validation after ${attempt + 1} attempts - ${problem}\n\nLast response:\n${content}`, { usage, model });
+    }
+    contents = [
+      ...contents,
+      { role: 'model', parts: [{ text: content }] },
+      { role: 'user', parts: [{ text: `Your previous response was rejected because ${problem}. Reply again with only the corrected JSON, conforming exactly to the response schema.` }] }
+    ];
+  }
+}
 
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.thought) {
-        // Thought/reasoning content
-        if (part.text) reasoning = (reasoning || '') + part.text;
-      } else if (part.text) {
-        content += part.text;
+// Drain a response stream, reporting each fragment as it arrives, and merge the chunks
+// back into a single response so the regular parsers can handle it
+async function collectStream(
+  stream: AsyncGenerator<GenerateContentResponse>,
+  options: StreamOptions
+): Promise<GenerateContentResponse> {
+  const merged = new GenerateContentResponse();
+  // Candidates by index; each streams its own fragments when several were requested
+  const candidates = new Map<number, { candidate: Candidate; parts: Part[] }>();
+  let images = 0;
+
+  for await (const chunk of stream) {
+    options.signal?.throwIfAborted();
+    if (chunk.promptFeedback) merged.promptFeedback = chunk.promptFeedback;
+    if (chunk.usageMetadata) merged.usageMetadata = chunk.usageMetadata;
+    if (chunk.modelVersion) merged.modelVersion = chunk.modelVersion;
+
+    for (const chunkCandidate of chunk.candidates || []) {
+      const index = chunkCandidate.index ?? 0;
+      const entry = candidates.get(index) ?? { candidate: {}, parts: [] };
+      candidates.set(index, { ...entry, candidate: { ...entry.candidate, ...chunkCandidate } });
+      const { parts } = entry;
+
+      for (const part of chunkCandidate.content?.parts || []) {
+        // Progress follows the first candidate only, so parallel candidates do not interleave
+        if (index === 0 && part.text) {
+          options.onProgress?.({ kind: part.thought ? 'thought' : 'text', text: part.text });
+        } else if (index === 0 && part.inlineData) {
+          options.onProgress?.(part.thought
+            ? { kind: 'thought', text: 'Draft image' }
+            : { kind: 'image', text: `Received image ${++images}` });
+        }
+
+        // Text arrives in fragments; rejoin consecutive fragments of the same kind.
+        // A thought signature closes a part, so nothing is appended after one.
+        const prev = parts[parts.length - 1];
+        if (part.text !== undefined && prev?.text !== undefined && !prev.thoughtSignature && !!prev.thought === !!part.thought) {
+          parts[parts.length - 1] = { ...prev, ...part, text: prev.text + part.text };
+        } else {
+          parts.push(part);
+        }
       }
     }
   }
 
+  merged.candidates = [...candidates.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, { candidate, parts }]) => ({ ...candidate, content: { role: 'model', parts } }));
+  return merged;
+}
+
+function toUsage(metadata?: GenerateContentResponseUsageMetadata): Usage | undefined {
+  if (!metadata) return undefined;
   return {
-    content,
-    reasoning,
-    usage: response.usageMetadata ? {
-      promptTokens: response.usageMetadata.promptTokenCount || 0,
-      completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata.totalTokenCount || 0
-    } : undefined
+    promptTokens: metadata.promptTokenCount || 0,
+    completionTokens: metadata.candidatesTokenCount || 0,
+    thoughtTokens: metadata.thoughtsTokenCount || 0,
+    totalTokens: metadata.totalTokenCount || 0
   };
 }
 
-// Image generation using Gemini 3 Pro
+// Usage for Imagen calls, which are billed per generated image rather than per token
+function perImageUsage(images: number): Usage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, images };
+}
+
+// Attach the usage of requests a call already made to its error, so a failed call is still charged
+function withUsage(error: unknown, model: string, usage: Usage | undefined): unknown {
+  if (!usage) return error;
+  if (!(error instanceof GeminiError)) {
+    return new GeminiError('unknown', error instanceof Error ? error.message : String(error), { usage, model });
+  }
+  error.usage = addUsage(error.usage, usage);
+  error.model ??= model;
+  return error;
+}
+
+// Sum usage across the requests that make up one tool call (e.g. schema repair retries)
+function addUsage(a?: Usage, b?: Usage): Usage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    thoughtTokens: (a.thoughtTokens || 0) + (b.thoughtTokens || 0),
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
+function ajvErrorsText(errors: ErrorObject[] | null | undefined): string {
+  if (!errors?.length) return 'unknown error';
+  return errors.map(e => `${e.instancePath || '(root)'} ${e.message}`).join('; ');
+}
+
+// Remove a surrounding markdown code fence (```json ... ```) that models add despite instructions
+export function stripCodeFences(text: string, languages: string[] = []): string {
+  let result = text.trim();
+  const lang = languages.find(l => result.startsWith('```' + l));
+  if (lang) result = result.slice(3 + lang.length);
+  else if (result.startsWith('```')) result = result.slice(3);
+  if (result.endsWith('```')) result = result.slice(0, -3);
+  return result.trim();
+}
+
+export type ImageEngine = 'gemini' | 'imagen';
+
+export interface ImageOptions extends StreamOptions {
+  engine?: ImageEngine;
+  model?: string;
+  imageSize?: '1K' | '2K' | '4K';
+  aspectRatio?: string;
+  negativePrompt?: string;
+  numberOfImages?: number;
+  guidanceScale?: number;
+  seed?: number;
+  personGeneration?: 'dont_allow' | 'allow_adult' | 'allow_all';
+  outputFormat?: 'png' | 'jpeg';
+  inputImages?: ReferenceImage[];
+  cache?: CacheOverride;
+}
+
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'reference';
+
+export interface ReferenceImage {
+  image: Image;
+  role?: ReferenceRole;
+  // Shown in error messages, usually the file name
+  name?: string;
+}
+
+const REFERENCE_GUIDANCE: Record<ReferenceRole, string> = {
+  subject: 'the subject: keep its identity, shape and details consistent',
+  style: 'a style reference: match its art style, palette, lighting and texture, not its content',
+  background: 'the background or setting to place the result in',
+  reference: 'a reference',
+};
+
+// Reference images as content parts, each introduced by its role so the model knows how to use it.
+// A single image without a role is sent bare, as a plain edit.
+function referenceParts(model: string, references: ReferenceImage[]): Part[] {
+  const limit = getModelInfo(model)?.maxReferenceImages;
+  if (limit !== undefined && references.length > limit) {
+    throw new Error(`${model} accepts at most ${limit} reference image${limit === 1 ? '' : 's'}, got ${references.length}.`);
+  }
+  const bytes = (ref: ReferenceImage) => Math.ceil((ref.image.imageBytes?.length || 0) * 3 / 4);
+  const total = references.reduce((sum, ref) => sum + bytes(ref), 0);
+  if (total > MAX_INLINE_ATTACHMENT_BYTES) {
+    const sizes = references.map(r => `${r.name || 'image'} (${(bytes(r) / 1048576).toFixed(1)}MB)`);
+    throw new Error(`Reference images total ${(total / 1048576).toFixed(1)}MB, over the ${MAX_INLINE_ATTACHMENT_BYTES / 1048576}MB request limit: ${sizes.join(', ')}. Downscale or drop some references.`);
+  }
+
+  const bare = references.length === 1 && !references[0].role;
+  return references.flatMap((ref, i) => {
+    const part: Part = { inlineData: { data: ref.image.imageBytes || '', mimeType: ref.image.mimeType || 'image/png' } };
+    return bare ? [part] : [{ text: `Image ${i + 1} is ${REFERENCE_GUIDANCE[ref.role || 'reference']}.` }, part];
+  });
+}
+
+// Aspect ratios accepted by Imagen's generateImages
+const IMAGEN_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const PERSON_GENERATION: Record<NonNullable<ImageOptions['personGeneration']>, PersonGeneration> = {
+  dont_allow: PersonGeneration.DONT_ALLOW,
+  allow_adult: PersonGeneration.ALLOW_ADULT,
+  allow_all: PersonGeneration.ALLOW_ALL,
+};
+
+// Refuse options the engine would silently ignore, naming them as the tool arguments
+function rejectUnsupported(engine: ImageEngine, unsupported: Array<[string, boolean]>, hint: string): void {
+  const names = unsupported.filter(([, present]) => present).map(([name]) => name);
+  if (names.length > 0) {
+    throw new Error(`The ${engine} engine does not support ${names.join(', ')}. ${hint}`);
+  }
+}
+
+// Append the configured brand instructions to an image or SVG prompt
+function withBrand(prompt: string): string {
+  const brand = brandInstructions();
+  return brand ? `${prompt}\n\n${brand}` : prompt;
+}
+
+// Fill in the size and aspect ratio gemcp.config.json sets for native image generation
+function withImageDefaults<T extends Pick<ImageOptions, 'imageSize' | 'aspectRatio'>>(options: T): T {
+  return {
+    ...options,
+    imageSize: options.imageSize ?? GENERATION_DEFAULTS.image.imageSize,
+    aspectRatio: options.aspectRatio ?? GENERATION_DEFAULTS.image.aspectRatio,
+  };
+}
+
+// Image generation with Gemini native image models, or Imagen when engine is "imagen"
 export async function callGeminiImage(
-  apiKey: string,
   prompt: string,
-  options: {
-    imageSize?: ImageConfig['imageSize'];
-    aspectRatio?: ImageConfig['aspectRatio'];
-    negativePrompt?: string;
-    numberOfImages?: number;
-    guidanceScale?: number;
-    seed?: number;
-    inputImage?: Image;
-  } = {}
+  requested: ImageOptions = {}
 ): Promise<GeminiImageResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
+  if (requested.engine === 'imagen') return callImagen(prompt, requested);
+  const options = withImageDefaults(requested);
 
-  const parts: Array<{ text: string } | { inlineData: { data: string; mimeType: string } }> = [];
+  rejectUnsupported('gemini', [
+    ['negative_prompt', options.negativePrompt !== undefined],
+    ['num_images', options.numberOfImages !== undefined && options.numberOfImages !== 1],
+    ['guidance_scale', options.guidanceScale !== undefined],
+    ['person_generation', options.personGeneration !== undefined],
+    ['output_format', options.outputFormat !== undefined],
+  ], 'Use engine: "imagen" for these, or describe what to avoid in the prompt.');
 
-  if (options.inputImage?.imageBytes) {
-    parts.push({ inlineData: { data: options.inputImage.imageBytes, mimeType: options.inputImage.mimeType || 'image/png' } });
-  }
-  parts.push({ text: prompt });
+  const model = resolveModel('image', options.model);
+
+  const parts = referenceParts(model, options.inputImages || []);
+  parts.push({ text: withBrand(prompt) });
+
+  const { text, images, usage, cached } = await generateImageTurn(model, [{ role: 'user', parts }], options);
+  return {
+    model,
+    text,
+    images,
+    applied: definedOnly({
+      engine: 'gemini',
+      image_size: options.imageSize,
+      aspect_ratio: options.aspectRatio,
+      seed: options.seed,
+      input_images: options.inputImages?.length
+        ? options.inputImages.map(r => r.role ? `${r.name || 'image'} (${r.role})` : r.name || 'image').join('; ')
+        : undefined,
+    }),
+    usage,
+    cached,
+  };
+}
 
+// Continue an image-editing conversation. History is raw Gemini content, so the model keeps
+// its earlier images and thought signatures. Returns the new user and model turns for storage.
+export async function callGeminiImageSession(
+  history: Content[],
+  prompt: string,
+  requested: Pick<ImageOptions, 'model' | 'imageSize' | 'aspectRatio' | 'inputImages' | 'cache' | 'signal' | 'onProgress'> = {}
+): Promise<GeminiImageResult & { turns: Content[] }> {
+  const options = withImageDefaults(requested);
+  const model = resolveModel('image', options.model);
+
+  // The brand goes into the first turn only; later turns edit what is already on brand
+  const parts = referenceParts(model, options.inputImages || []);
+  parts.push({ text: history.length === 0 ? withBrand(prompt) : prompt });
+  const userTurn: Content = { role: 'user', parts };
+
+  const { text, images, usage, cached, modelContent } = await generateImageTurn(model, [...history, userTurn], options);
+  return { model, text, images, usage, cached, turns: [userTurn, modelContent] };
+}
+
+// Stream one native image generation turn and split the reply into text and images
+async function generateImageTurn(
+  model: string,
+  contents: Content[],
+  options: ImageOptions
+): Promise<{ text?: string; images: Array<{ mimeType: string; data: string }>; usage?: Usage; cached: boolean; modelContent: Content }> {
   // ImageConfig only supports aspectRatio and imageSize in Gemini API
   const imageConfig: ImageConfig = {};
   if (options.imageSize) imageConfig.imageSize = options.imageSize;
@@ -245,51 +931,115 @@ export async function callGeminiImage(
     config.imageConfig = imageConfig;
   }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: [{ role: 'user', parts }],
-    config
-  });
+  const { response, cached } = await cachedGenerate('image', { model, contents, config }, options.cache, () => withRetry('image', async (signal, client) => {
+    const stream = await client.models.generateContentStream({
+      model,
+      contents,
+      config: { ...config, abortSignal: signal }
+    });
+    const merged = await collectStream(stream, { ...options, signal });
+    assertResponseOk(merged);
+    return merged;
+  }, options.signal));
+
+  // Cache hits skip the check inside the call, so every response is checked here too
+  assertResponseOk(response);
+  const modelContent: Content = response.candidates?.find(isUsableCandidate)?.content ?? { parts: [] };
 
   const images: Array<{ mimeType: string; data: string }> = [];
   let text: string | undefined;
+  for (const part of modelContent.parts || []) {
+    // Thought parts carry interim drafts, not results
+    if (part.thought) continue;
+    if (part.inlineData) {
+      images.push({
+        mimeType: part.inlineData.mimeType || 'image/png',
+        data: part.inlineData.data || ''
+      });
+    } else if (part.text) {
+      text = part.text;
+    }
+  }
 
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        images.push({
-          mimeType: part.inlineData.mimeType || 'image/png',
-          data: part.inlineData.data || ''
-        });
-      } else if (part.text) {
-        text = part.text;
-      }
+  return { text, images, usage: toUsage(response.usageMetadata), cached, modelContent: { ...modelContent, role: 'model' } };
+}
+
+// Text-to-image through Imagen's generateImages. Not cached: the response cache only holds
+// generateContent responses, and Imagen is billed per image whatever the seed.
+async function callImagen(prompt: string, options: ImageOptions): Promise<GeminiImageResult> {
+
+  rejectUnsupported('imagen', [
+    ['input_image', Boolean(options.inputImages?.length)],
+    ['image_size "4K"', options.imageSize === '4K'],
+    [`aspect_ratio "${options.aspectRatio}"`, options.aspectRatio !== undefined && !IMAGEN_ASPECT_RATIOS.includes(options.aspectRatio)],
+  ], `Imagen generates from text only, at 1K or 2K, with aspect ratios ${IMAGEN_ASPECT_RATIOS.join(', ')}. Use gemini_edit or the gemini engine for image input.`);
+  // The Gemini API's Imagen endpoint has no negative prompt or seed; only Vertex AI accepts them
+  if (backendFor('imagen') !== 'vertex') {
+    rejectUnsupported('imagen', [
+      ['negative_prompt', options.negativePrompt !== undefined],
+      ['seed', options.seed !== undefined],
+    ], 'These Imagen parameters need the Vertex AI backend.');
+  }
+
+  const model = resolveModel('imagen', options.model);
+  const config: GenerateImagesConfig = {};
+  if (options.numberOfImages) config.numberOfImages = options.numberOfImages;
+  if (options.aspectRatio) config.aspectRatio = options.aspectRatio;
+  if (options.imageSize) config.imageSize = options.imageSize;
+  if (options.negativePrompt) config.negativePrompt = options.negativePrompt;
+  if (options.guidanceScale !== undefined) config.guidanceScale = options.guidanceScale;
+  if (options.seed !== undefined) config.seed = options.seed;
+  if (options.personGeneration) config.personGeneration = PERSON_GENERATION[options.personGeneration];
+  if (options.outputFormat) config.outputMimeType = `image/${options.outputFormat}`;
+  config.includeRaiReason = true;
+
+  const response = await withRetry('imagen', (signal, client) => client.models.generateImages({
+    model,
+    prompt: withBrand(prompt),
+    config: { ...config, abortSignal: signal }
+  }), options.signal);
+  assertImagesOk(response);
+
+  const images: Array<{ mimeType: string; data: string }> = [];
+  for (const img of response.generatedImages || []) {
+    if (img.image?.imageBytes) {
+      images.push({ mimeType: img.image.mimeType || 'image/png', data: img.image.imageBytes });
     }
   }
 
   return {
-    text,
+    model,
     images,
-    usage: response.usageMetadata ? {
-      promptTokens: response.usageMetadata.promptTokenCount || 0,
-      completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata.totalTokenCount || 0
-    } : undefined
+    usage: perImageUsage(images.length),
+    applied: definedOnly({
+      engine: 'imagen',
+      num_images: options.numberOfImages,
+      image_size: options.imageSize,
+      aspect_ratio: options.aspectRatio,
+      negative_prompt: options.negativePrompt,
+      guidance_scale: options.guidanceScale,
+      seed: options.seed,
+      person_generation: options.personGeneration,
+      output_format: options.outputFormat,
+    }),
   };
 }
 
+function definedOnly(values: Record<string, string | number | undefined>): Record<string, string | number> {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)) as Record<string, string | number>;
+}
+
 // Upscale image using Imagen
 export async function callGeminiUpscale(
-  apiKey: string,
   imageData: Image,
   options: {
+    model?: string;
     outputFormat?: 'png' | 'jpeg' | 'webp';
     jpegQuality?: number;
     upscaleFactor?: 'x2' | 'x4';
+    signal?: AbortSignal;
   } = {}
 ): Promise<GeminiImageResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
-
   const formatToMime: Record<string, string> = {
     'png': 'image/png',
     'jpeg': 'image/jpeg',
@@ -304,12 +1054,14 @@ export async function callGeminiUpscale(
     config.outputCompressionQuality = options.jpegQuality;
   }
 
-  const response = await ai.models.upscaleImage({
-    model: 'imagen-3.0-generate-002',
+  const model = resolveModel('upscale', options.model);
+  const response = await withRetry('upscale', (signal, client) => client.models.upscaleImage({
+    model,
     image: imageData,
     upscaleFactor: options.upscaleFactor || 'x2',
-    config
-  });
+    config: { ...config, abortSignal: signal }
+  }), options.signal);
+  assertImagesOk(response);
 
   const images: Array<{ mimeType: string; data: string }> = [];
 
@@ -324,16 +1076,16 @@ export async function callGeminiUpscale(
     }
   }
 
-  return { images };
+  return { model, images, usage: perImageUsage(images.length) };
 }
 
 // Edit image using Imagen
 export async function callGeminiEdit(
-  apiKey: string,
   prompt: string,
   imageData: Image,
   maskData?: Image,
   options: {
+    model?: string;
     outputFormat?: 'png' | 'jpeg' | 'webp';
     jpegQuality?: number;
     negativePrompt?: string;
@@ -341,10 +1093,9 @@ export async function callGeminiEdit(
     guidanceScale?: number;
     seed?: number;
     editMode?: 'inpaint' | 'outpaint';
+    signal?: AbortSignal;
   } = {}
 ): Promise<GeminiImageResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
-
   const formatToMime: Record<string, string> = {
     'png': 'image/png',
     'jpeg': 'image/jpeg',
@@ -385,12 +1136,14 @@ export async function callGeminiEdit(
     referenceImages.push(maskRef);
   }
 
-  const response = await ai.models.editImage({
-    model: 'imagen-3.0-capability-001',
+  const model = resolveModel('edit', options.model);
+  const response = await withRetry('edit', (signal, client) => client.models.editImage({
+    model,
     prompt,
     referenceImages,
-    config
-  });
+    config: { ...config, abortSignal: signal }
+  }), options.signal);
+  assertImagesOk(response);
 
   const images: Array<{ mimeType: string; data: string }> = [];
 
@@ -405,115 +1158,398 @@ export async function callGeminiEdit(
     }
   }
 
-  return { images };
+  return { model, images, usage: perImageUsage(images.length) };
 }
 
-// Generate SVG via chat model
+// Image understanding: describe, OCR and compare go through the text pipeline, so
+// structured replies get the same schema validation and repair as response_schema
+function imagePart(image: Image): Part {
+  return { inlineData: { data: image.imageBytes || '', mimeType: image.mimeType || 'image/png' } };
+}
+
+async function generateFromImages(parts: Part[], options: TextOptions): Promise<GeminiResult> {
+  const ai = getClient('vision');
+  const model = resolveModel('vision', options.model);
+  return generateText(ai, model, [{ role: 'user', parts }], buildTextConfig(options, options.instructions), options, 'vision');
+}
+
+export type DescribeStyle = 'caption' | 'alt_text' | 'detailed';
+
+const DESCRIBE_PROMPTS: Record<DescribeStyle, string> = {
+  caption: 'Write a one-sentence caption.',
+  alt_text: 'Write concise alt text for screen readers: under 125 characters, no "image of" or "picture of", and include any text that matters.',
+  detailed: 'Describe it in detail: subjects, setting, composition, colors, lighting, any visible text, and notable details.',
+};
+
+export async function callGeminiDescribe(
+  images: Image[],
+  options: TextOptions & { style?: DescribeStyle; focus?: string } = {}
+): Promise<GeminiResult> {
+  const instruction = DESCRIBE_PROMPTS[options.style || 'detailed'];
+  const parts: Part[] = images.flatMap((image, i) =>
+    images.length > 1 ? [{ text: `Image ${i + 1}:` }, imagePart(image)] : [imagePart(image)]);
+  parts.push({
+    text: [
+      images.length > 1 ? `For each image, numbered in order: ${instruction}` : instruction,
+      options.focus ? `Focus on: ${options.focus}` : '',
+      'Reply with only the description.',
+    ].filter(Boolean).join('\n'),
+  });
+  return generateFromImages(parts, options);
+}
+
+export interface OcrBlock {
+  text: string;
+  kind: 'heading' | 'paragraph' | 'list' | 'table' | 'label' | 'caption' | 'other';
+  box_2d: [number, number, number, number];
+}
+
+export interface GeminiOcrResult {
+  model: string;
+  text: string;
+  blocks: OcrBlock[];
+  usage?: Usage;
+  cached?: boolean;
+}
+
+const BOX_2D_SCHEMA = { type: 'array', items: { type: 'number' }, minItems: 4, maxItems: 4 };
+
+const OCR_SCHEMA = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          kind: { type: 'string', enum: ['heading', 'paragraph', 'list', 'table', 'label', 'caption', 'other'] },
+          box_2d: BOX_2D_SCHEMA,
+        },
+        required: ['text', 'kind', 'box_2d'],
+      },
+    },
+    text: { type: 'string' },
+  },
+  required: ['blocks', 'text'],
+};
+
+export async function callGeminiOcr(
+  image: Image,
+  options: { model?: string; format?: 'text' | 'markdown'; cache?: CacheOverride; signal?: AbortSignal } = {}
+): Promise<GeminiOcrResult> {
+  const reconstruction = options.format === 'markdown'
+    ? 'the full text reconstructed as Markdown, keeping headings, lists and tables'
+    : 'the full text as plain text in reading order, with line breaks between blocks';
+  const result = await generateFromImages([
+    imagePart(image),
+    { text: `Extract all text in this image. In "blocks", give each block of text in reading order with its kind and its 2D bounding box "box_2d" as [ymin, xmin, ymax, xmax] normalized to 0-1000. Transcribe exactly; do not correct or translate. In "text", give ${reconstruction}.` },
+  ], { model: options.model, temperature: 0, responseSchema: OCR_SCHEMA, cache: options.cache, signal: options.signal });
+
+  const data = result.data as { blocks: OcrBlock[]; text: string };
+  return { model: result.model, text: data.text, blocks: data.blocks, usage: result.usage, cached: result.cached };
+}
+
+export interface ImageDifference {
+  type: 'added' | 'removed' | 'changed' | 'moved';
+  description: string;
+  // Which image box_2d refers to: "before" for removed elements, otherwise "after"
+  image: 'before' | 'after';
+  box_2d?: [number, number, number, number];
+}
+
+export interface GeminiCompareResult {
+  model: string;
+  identical: boolean;
+  summary: string;
+  differences: ImageDifference[];
+  usage?: Usage;
+  cached?: boolean;
+}
+
+const COMPARE_SCHEMA = {
+  type: 'object',
+  properties: {
+    identical: { type: 'boolean' },
+    summary: { type: 'string' },
+    differences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['added', 'removed', 'changed', 'moved'] },
+          description: { type: 'string' },
+          image: { type: 'string', enum: ['before', 'after'] },
+          box_2d: BOX_2D_SCHEMA,
+        },
+        required: ['type', 'description', 'image'],
+      },
+    },
+  },
+  required: ['identical', 'summary', 'differences'],
+};
+
+export async function callGeminiCompare(
+  before: Image,
+  after: Image,
+  options: { model?: string; focus?: string; cache?: CacheOverride; signal?: AbortSignal } = {}
+): Promise<GeminiCompareResult> {
+  const result = await generateFromImages([
+    { text: 'Image A (before):' },
+    imagePart(before),
+    { text: 'Image B (after):' },
+    imagePart(after),
+    {
+      text: [
+        'Compare image B against image A and list every visible difference: elements added, removed, changed (text, color, size, state) or moved.',
+        options.focus ? `Focus on: ${options.focus}. Ignore differences outside that focus.` : 'Ignore compression noise and differences too small to notice.',
+        'For each difference give its type, a specific description, and a 2D bounding box "box_2d" as [ymin, xmin, ymax, xmax] normalized to 0-1000, located in the before image for removed elements (image: "before") and in the after image otherwise (image: "after").',
+        'Set "identical" to true only if there are no differences, and give a one-sentence "summary".',
+      ].join('\n'),
+    },
+  ], { model: options.model, temperature: 0, responseSchema: COMPARE_SCHEMA, cache: options.cache, signal: options.signal });
+
+  const data = result.data as Omit<GeminiCompareResult, 'model' | 'usage'>;
+  return { model: result.model, identical: data.identical, summary: data.summary, differences: data.differences, usage: result.usage, cached: result.cached };
+}
+
+// Generate SVG via chat model. With inputSvg, the model edits that SVG instead of starting from scratch.
 export async function callGeminiSvg(
-  apiKey: string,
   prompt: string,
-  options: { instructions?: string } = {}
+  options: { model?: string; instructions?: string; inputSvg?: string; optimize?: boolean; cache?: CacheOverride; signal?: AbortSignal } = {}
 ): Promise<GeminiSvgResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
+  const model = resolveModel('svg', options.model);
+  const text = options.inputSvg
+    ? `Modify the SVG below as instructed, keeping everything the instruction does not mention unchanged.\n\nInstruction: ${prompt}\n\n${options.inputSvg}`
+    : prompt;
+
+  const config: GenerateContentConfig = {
+    systemInstruction: withBrand(options.instructions || GENERATION_DEFAULTS.svg.instructions),
+    temperature: GENERATION_DEFAULTS.svg.temperature,
+  };
 
-  const systemPrompt = options.instructions ||
-    'You are an expert SVG designer. Generate clean, optimized SVG code. Output ONLY the SVG code with no markdown fences or explanation. The SVG should be self-contained with proper viewBox and xmlns attributes.';
+  const result = await generateSvg(model, [{ role: 'user', parts: [{ text }] }], config, options);
+  return { model, svg: result.svg, changes: result.changes, usage: result.usage, cached: result.cached };
+}
+
+export interface GeneratedIcon {
+  concept: string;
+  svg?: string;
+  changes?: string[];
+  error?: string;
+}
 
+// Generate a set of icons in one conversation, so each icon is drawn with the earlier ones in view,
+// and hold every icon to the shared grid, stroke and palette constraints
+export async function callGeminiIconSet(
+  concepts: string[],
+  constraints: IconConstraints,
+  options: {
+    model?: string;
+    optimize?: boolean;
+    signal?: AbortSignal;
+    onProgress?: (progress: StreamProgress) => void;
+    onIcon?: (icon: GeneratedIcon) => Promise<void>;
+  } = {}
+): Promise<{ model: string; icons: GeneratedIcon[]; usage?: Usage }> {
+  const model = resolveModel('svg', options.model);
+
+  const rules = [
+    `Every icon uses viewBox="0 0 ${constraints.grid} ${constraints.grid}" and stays on that ${constraints.grid}px grid with consistent padding.`,
+    constraints.strokeWidth !== undefined ? `All strokes use stroke-width="${constraints.strokeWidth}".` : '',
+    constraints.palette?.length ? `Use only these colors: ${constraints.palette.join(', ')} (plus none).` : '',
+    constraints.style ? `Style: ${constraints.style}.` : '',
+    'All icons in the set must look like one family: same visual weight, corner treatment, level of detail and metaphors.',
+  ].filter(Boolean).join('\n');
   const config: GenerateContentConfig = {
-    systemInstruction: systemPrompt,
-    temperature: 0.7,
+    systemInstruction: withBrand(`${GENERATION_DEFAULTS.svg.instructions}\nYou are drawing a consistent icon set, one icon per message.\n${rules}`),
+    temperature: 0.4,
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-    config
-  });
+  let contents: Content[] = [];
+  let usage: Usage | undefined;
+  const icons: GeneratedIcon[] = [];
+  for (const [i, concept] of concepts.entries()) {
+    options.onProgress?.({ kind: 'text', text: `[${i + 1}/${concepts.length}] ${concept}` });
+    const request: Content = { role: 'user', parts: [{ text: `Icon: ${concept}` }] };
+    let icon: GeneratedIcon;
+    try {
+      const result = await generateSvg(model, [...contents, request], config, options, svg => iconProblems(svg, constraints));
+      usage = addUsage(usage, result.usage);
+      // Keep only the accepted icon in the history, not the repair exchanges
+      contents = [...contents, request, { role: 'model', parts: [{ text: result.svg }] }];
+      icon = { concept, svg: result.svg, changes: result.changes };
+    } catch (error) {
+      // Icons drawn before a cancellation were paid for, and so were the failed icon's attempts
+      if (options.signal?.aborted) throw withUsage(error, model, usage);
+      if (error instanceof GeminiError) usage = addUsage(usage, error.usage);
+      icon = { concept, error: error instanceof Error ? error.message : String(error) };
+    }
+    icons.push(icon);
+    await options.onIcon?.(icon);
+  }
+
+  return { model, icons, usage };
+}
 
-  let svg = '';
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.text) svg += part.text;
+// One SVG generation with validation: extract, parse, sanitize and check the reply, sending
+// problems back to the model until it produces a usable SVG
+async function generateSvg(
+  model: string,
+  contents: Content[],
+  config: GenerateContentConfig,
+  options: { optimize?: boolean; cache?: CacheOverride; signal?: AbortSignal },
+  check?: (svg: string) => string[]
+): Promise<{ svg: string; changes: string[]; usage?: Usage; cached: boolean }> {
+  let usage: Usage | undefined;
+  let cached = true;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await cachedGenerate('svg', { model, contents, config }, options.cache, async () => {
+      const response = await withRetry('svg', (signal, client) => client.models.generateContent({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal }
+      }), options.signal);
+      assertResponseOk(response);
+      return response;
+    }).catch((error) => { throw withUsage(error, model, usage); });
+    const { response } = result;
+    cached &&= result.cached;
+    usage = addUsage(usage, toUsage(response.usageMetadata));
+
+    let text = '';
+    if (response.candidates?.[0]?.content?.parts) {
+      for (const part of response.candidates[0].content.parts) {
+        if (part.text && !part.thought) text += part.text;
+      }
     }
+
+    let problem: string;
+    try {
+      // Constraints are checked before optimizing, which rewrites colors and attributes
+      const sanitized = processSvg(text, { optimize: false });
+      const problems = check?.(sanitized.svg) ?? [];
+      if (problems.length === 0) {
+        if (options.optimize === false) return { ...sanitized, usage, cached };
+        const optimized = processSvg(sanitized.svg);
+        return { svg: optimized.svg, changes: [...sanitized.changes, ...optimized.changes], usage, cached };
+      }
+      problem = `it breaks the set's rules: ${problems.join('; ')}`;
+    } catch (error) {
+      if (!(error instanceof SvgInvalidError)) throw withUsage(error, model, usage);
+      problem = error.message;
+    }
+
+    if (attempt >= MAX_SVG_REPAIRS) {
+      throw new GeminiError('invalid_response', `Gemini did not return a valid SVG after ${attempt + 1} attempts - ${problem}\n\nLast response:\n${text}`, { usage, model });
+    }
+    contents = [
+      ...contents,
+      { role: 'model', parts: [{ text }] },
+      { role: 'user', parts: [{ text: `That SVG was rejected: ${problem}\nReply again with only the corrected, complete SVG document.` }] }
+    ];
   }
+}
 
-  svg = svg.trim();
-  if (svg.startsWith('```svg')) svg = svg.slice(6);
-  else if (svg.startsWith('```xml')) svg = svg.slice(6);
-  else if (svg.startsWith('```')) svg = svg.slice(3);
-  if (svg.endsWith('```')) svg = svg.slice(0, -3);
-  svg = svg.trim();
+// Send an image with an instruction that asks for a JSON list, and parse that list
+// The JSON list a segment or detect reply holds
+function visionJsonItems(response: GenerateContentResponse, model: string): unknown[] {
+  let jsonText = '';
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.text) jsonText += part.text;
+  }
+  jsonText = stripCodeFences(jsonText, ['json']);
 
-  return {
-    svg,
-    usage: response.usageMetadata ? {
-      promptTokens: response.usageMetadata.promptTokenCount || 0,
-      completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata.totalTokenCount || 0
-    } : undefined
-  };
+  let problem: string;
+  try {
+    const parsed: unknown = JSON.parse(jsonText);
+    if (Array.isArray(parsed)) return parsed;
+    problem = 'it is not a JSON list';
+  } catch (error) {
+    problem = `it is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  throw new GeminiError('invalid_response', `the reply could not be read because ${problem}\n\nResponse:\n${jsonText}`, {
+    usage: toUsage(response.usageMetadata),
+    model,
+  });
 }
 
-// Segment image using Gemini 2.5
-export async function callGeminiSegment(
-  apiKey: string,
+async function callVisionJson(
+  role: 'segment' | 'detect',
   imageData: Image,
-  prompt?: string
-): Promise<GeminiSegmentResult> {
-  const ai = new GoogleGenAI({ apiKey: cleanApiKey(apiKey) });
-
-  const segmentPrompt = prompt ||
-    'Give the segmentation masks for all objects. Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label". Use descriptive labels.';
+  prompt: string,
+  options: { model?: string; cache?: CacheOverride; signal?: AbortSignal }
+): Promise<{ model: string; items: unknown[]; usage?: Usage; cached: boolean }> {
 
   const config: GenerateContentConfig = {
     temperature: 0,
     responseModalities: ['TEXT'],
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          { inlineData: { data: imageData.imageBytes || '', mimeType: imageData.mimeType || 'image/png' } },
-          { text: segmentPrompt }
-        ]
-      }
-    ],
-    config
+  const model = resolveModel(role, options.model);
+  const contents: Content[] = [
+    {
+      role: 'user',
+      parts: [
+        { inlineData: { data: imageData.imageBytes || '', mimeType: imageData.mimeType || 'image/png' } },
+        { text: prompt }
+      ]
+    }
+  ];
+  // Malformed replies are errors, not "nothing found", and are checked before they can be cached
+  const { response, cached } = await cachedGenerate(role, { model, contents, config }, options.cache, async () => {
+    const response = await withRetry(role, (signal, client) => client.models.generateContent({
+      model,
+      contents,
+      config: { ...config, abortSignal: signal }
+    }), options.signal);
+    assertResponseOk(response);
+    visionJsonItems(response, model);
+    return response;
   });
+  const items = visionJsonItems(response, model);
 
-  let jsonText = '';
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.text) jsonText += part.text;
-    }
-  }
+  return { model, items, usage: toUsage(response.usageMetadata), cached };
+}
 
-  jsonText = jsonText.trim();
-  if (jsonText.startsWith('```json')) jsonText = jsonText.slice(7);
-  else if (jsonText.startsWith('```')) jsonText = jsonText.slice(3);
-  if (jsonText.endsWith('```')) jsonText = jsonText.slice(0, -3);
-  jsonText = jsonText.trim();
+// Segment image using Gemini 2.5
+export async function callGeminiSegment(
+  imageData: Image,
+  prompt?: string,
+  options: { model?: string; cache?: CacheOverride; signal?: AbortSignal } = {}
+): Promise<GeminiSegmentResult> {
+  const segmentPrompt = prompt || GENERATION_DEFAULTS.segment.prompt;
 
-  let masks: SegmentationMask[] = [];
-  try {
-    const parsed = JSON.parse(jsonText);
-    masks = parsed.map((m: SegmentationMask) => ({
+  const { model, items, usage, cached } = await callVisionJson('segment', imageData, segmentPrompt, options);
+  const masks = (items as SegmentationMask[])
+    .filter(m => typeof m?.mask === 'string')
+    .map(m => ({
       ...m,
       mask: m.mask.startsWith('data:') ? m.mask.split(',')[1] : m.mask
     }));
-  } catch {
-    // If parsing fails, return empty masks
-  }
 
-  return {
-    masks,
-    usage: response.usageMetadata ? {
-      promptTokens: response.usageMetadata.promptTokenCount || 0,
-      completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: response.usageMetadata.totalTokenCount || 0
-    } : undefined
-  };
+  return { model, masks, usage, cached };
+}
+
+// Object detection: labeled boxes only, which is cheaper and faster than full masks
+export async function callGeminiDetect(
+  imageData: Image,
+  options: { model?: string; prompt?: string; labels?: string[]; maxObjects?: number; cache?: CacheOverride; signal?: AbortSignal } = {}
+): Promise<GeminiDetectResult> {
+  const target = options.labels?.length ? `the following objects: ${options.labels.join(', ')}` : 'all prominent objects';
+  const detectPrompt = [
+    `Detect ${target}${options.prompt ? ` (${options.prompt})` : ''}.`,
+    'Output a JSON list where each entry contains the 2D bounding box in the key "box_2d" as [ymin, xmin, ymax, xmax] normalized to 0-1000, and the text label in the key "label". Use descriptive labels.',
+    options.maxObjects ? `Return at most ${options.maxObjects} objects, most prominent first.` : '',
+  ].filter(Boolean).join(' ');
+
+  const { model, items, usage, cached } = await callVisionJson('detect', imageData, detectPrompt, options);
+  const filters = options.labels?.map(l => l.toLowerCase());
+  const objects = (items as DetectedObject[])
+    .filter(o => Array.isArray(o?.box_2d) && o.box_2d.length === 4 && o.box_2d.every(v => typeof v === 'number'))
+    .filter(o => !filters || filters.some(f => String(o.label).toLowerCase().includes(f)))
+    .slice(0, options.maxObjects);
+
+  return { model, objects, usage, cached };
 }